@@ -0,0 +1,54 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { createRequire } from 'node:module';
+import type { Plugin, ResolvedConfig } from 'vite';
+
+// --- MediaPipe Assets Plugin ---
+// 把 @mediapipe/tasks-vision 自带的 wasm 文件作为 /<dir>/wasm/* 提供 (开发时由中间件提供，构建时复制到 dist)，
+// 版本始终与 package.json 中安装的版本一致，离线也能使用。
+// 模型文件 gesture_recognizer.task 不在 npm 包里，需要运行 `npm run fetch-model` 下载到 public/<dir>/ (npm run build 会自动下载)；
+// 没有模型时构建失败，开发时只给出警告；设置 VITE_MEDIAPIPE_MODEL_FALLBACK 后改从 CDN 加载
+
+export interface MediapipeAssetsOptions {
+  /** 相对于 base 的资源目录 */
+  dir?: string;
+}
+
+export const MODEL_FILE = 'gesture_recognizer.task';
+
+export default function mediapipeAssets({ dir = 'mediapipe' }: MediapipeAssetsOptions = {}): Plugin {
+  let config: ResolvedConfig;
+
+  const wasmDir = () => {
+    const require = createRequire(path.join(config.root, 'package.json'));
+    return path.join(path.dirname(require.resolve('@mediapipe/tasks-vision')), 'wasm');
+  };
+
+  return {
+    name: 'mediapipe-assets',
+    configResolved(resolved) {
+      config = resolved;
+    },
+    // 构建产物必须自带模型 (prebuild 会先下载)，除非明确指定了从别处加载
+    buildStart() {
+      if (fs.existsSync(path.join(config.publicDir, dir, MODEL_FILE))) return;
+      const external = config.env.VITE_MEDIAPIPE_BASE || config.env.VITE_MEDIAPIPE_MODEL_FALLBACK;
+      const message = `public/${dir}/${MODEL_FILE} is missing. Run \`npm run fetch-model\`, or set VITE_MEDIAPIPE_MODEL_FALLBACK to load the model from a CDN.`;
+      if (config.command === 'build' && !external) this.error(message);
+      else if (!external) this.warn(`${message} Gesture control will not work until then.`);
+    },
+    configureServer(server) {
+      server.middlewares.use(`${server.config.base}${dir}/wasm`, (req, res, next) => {
+        const file = path.join(wasmDir(), path.basename(req.url?.split('?')[0] ?? ''));
+        if (!fs.existsSync(file) || !fs.statSync(file).isFile()) return next();
+        res.setHeader('Content-Type', file.endsWith('.wasm') ? 'application/wasm' : 'text/javascript');
+        fs.createReadStream(file).pipe(res);
+      });
+    },
+    generateBundle() {
+      for (const file of fs.readdirSync(wasmDir())) {
+        this.emitFile({ type: 'asset', fileName: `${dir}/wasm/${file}`, source: fs.readFileSync(path.join(wasmDir(), file)) });
+      }
+    }
+  };
+}
@@ -0,0 +1,73 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import type { Plugin, ResolvedConfig } from 'vite';
+
+// --- Photo Manifest Plugin ---
+// 扫描 public/<dir> 下的图片，生成 /<dir>/manifest.json（开发时由中间件实时提供，构建时输出到 dist）
+// 可选的 metadata.json 以文件名为 key 提供 caption / date / weight / featured
+
+const IMAGE_PATTERN = /\.(jpe?g|png|webp)$/i;
+const HERO_PATTERN = /^top\.(jpe?g|png|webp)$/i;
+
+export interface PhotoMetadata {
+  caption?: string;
+  date?: string;
+  weight?: number;
+  featured?: boolean;
+}
+
+export interface PhotoManifestOptions {
+  /** 相对于 publicDir 的照片目录 */
+  dir?: string;
+  /** 照片目录下的元数据文件名 */
+  metadataFile?: string;
+}
+
+const readMetadata = (file: string): Record<string, PhotoMetadata> => {
+  if (!fs.existsSync(file)) return {};
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (err) {
+    console.warn(`[photo-manifest] 无法解析 ${file}:`, (err as Error).message);
+    return {};
+  }
+};
+
+export default function photoManifest({ dir = 'photos', metadataFile = 'metadata.json' }: PhotoManifestOptions = {}): Plugin {
+  let config: ResolvedConfig;
+
+  const buildManifest = () => {
+    const photoDir = path.join(config.publicDir, dir);
+    const files = fs.existsSync(photoDir) ? fs.readdirSync(photoDir).filter(f => IMAGE_PATTERN.test(f)) : [];
+    const metadata = readMetadata(path.join(photoDir, metadataFile));
+
+    // top.* 排在最前面，其余按自然顺序 (1, 2, ... 10)
+    files.sort((a, b) => {
+      const heroA = HERO_PATTERN.test(a); const heroB = HERO_PATTERN.test(b);
+      if (heroA !== heroB) return heroA ? -1 : 1;
+      return a.localeCompare(b, undefined, { numeric: true });
+    });
+
+    return {
+      version: 1,
+      photos: files.map(file => ({ ...metadata[file], src: `${config.base}${dir}/${encodeURIComponent(file)}` }))
+    };
+  };
+
+  return {
+    name: 'photo-manifest',
+    configResolved(resolved) {
+      config = resolved;
+    },
+    configureServer(server) {
+      server.middlewares.use(`${server.config.base}${dir}/manifest.json`, (_req, res) => {
+        res.setHeader('Content-Type', 'application/json');
+        res.setHeader('Cache-Control', 'no-cache');
+        res.end(JSON.stringify(buildManifest()));
+      });
+    },
+    generateBundle() {
+      this.emitFile({ type: 'asset', fileName: `${dir}/manifest.json`, source: JSON.stringify(buildManifest(), null, 2) });
+    }
+  };
+}
@@ -0,0 +1,34 @@
+// 下载手势识别模型到 public/mediapipe/，之后即可完全离线运行；npm run build 之前会自动运行
+import fs from 'node:fs';
+import path from 'node:path';
+
+const MODEL_URL = 'https://storage.googleapis.com/mediapipe-models/gesture_recognizer/gesture_recognizer/float16/1/gesture_recognizer.task';
+const target = path.resolve('public/mediapipe/gesture_recognizer.task');
+
+if (fs.existsSync(target) && !process.argv.includes('--force')) {
+  console.log(`${target} already exists (use --force to download again)`);
+  process.exit(0);
+}
+
+// 明确指定了从别处加载 wasm / 模型时不需要本地的模型 (npm run build 之前也会运行这个脚本)
+if (process.env.VITE_MEDIAPIPE_BASE || process.env.VITE_MEDIAPIPE_MODEL_FALLBACK) {
+  console.log('VITE_MEDIAPIPE_BASE / VITE_MEDIAPIPE_MODEL_FALLBACK is set, skipping the model download');
+  process.exit(0);
+}
+
+const fail = reason => {
+  console.error(`Could not download ${MODEL_URL}: ${reason}`);
+  console.error(`Copy gesture_recognizer.task to ${target} by hand, or set VITE_MEDIAPIPE_MODEL_FALLBACK to load it from a CDN at runtime.`);
+  process.exit(1);
+};
+
+let response;
+try {
+  response = await fetch(MODEL_URL);
+} catch (err) {
+  fail(err.cause?.message ?? err.message);
+}
+if (!response.ok) fail(`${response.status} ${response.statusText}`);
+fs.mkdirSync(path.dirname(target), { recursive: true });
+fs.writeFileSync(target, Buffer.from(await response.arrayBuffer()));
+console.log(`Saved ${target}`);
@@ -0,0 +1,59 @@
+// 局域网中继：把每条消息转发给其他所有连接，并保存显示端最新的完整状态交给新加入的连接
+// 用法：npm run relay [-- --port 8787]，然后打开 http://<本机 IP>:5173/?relay 和 /remote.html?relay
+import os from 'node:os';
+import { WebSocketServer } from 'ws';
+
+const portArg = process.argv.indexOf('--port');
+const port = Number(portArg >= 0 ? process.argv[portArg + 1] : process.env.RELAY_PORT ?? 8787);
+// 消息都很小，超过这个大小的直接断开
+const MAX_PAYLOAD = 64 * 1024;
+const HEARTBEAT = 15000;
+
+if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+  console.error(`Invalid port: ${process.argv[portArg + 1] ?? process.env.RELAY_PORT}`);
+  process.exit(1);
+}
+
+let snapshot = null;
+const server = new WebSocketServer({ port, maxPayload: MAX_PAYLOAD });
+
+server.on('connection', (socket, request) => {
+  socket.alive = true;
+  socket.on('pong', () => { socket.alive = true; });
+  console.log(`+ ${request.socket.remoteAddress} (${server.clients.size} connected)`);
+  socket.send(JSON.stringify({ type: 'welcome', snapshot }));
+
+  socket.on('message', (data, isBinary) => {
+    if (isBinary) return;
+    const text = data.toString();
+    let message;
+    try { message = JSON.parse(text); } catch { return; }
+    if (message?.type === 'snapshot') snapshot = message.snapshot ?? null;
+    for (const client of server.clients) {
+      if (client !== socket && client.readyState === client.OPEN) client.send(text);
+    }
+  });
+  socket.on('close', () => console.log(`- ${request.socket.remoteAddress} (${server.clients.size} connected)`));
+});
+
+// 心跳：断网的手机不会发 close，两次没有回应就断开
+const heartbeat = setInterval(() => {
+  for (const socket of server.clients) {
+    if (!socket.alive) { socket.terminate(); continue; }
+    socket.alive = false;
+    socket.ping();
+  }
+}, HEARTBEAT);
+server.on('close', () => clearInterval(heartbeat));
+
+server.on('listening', () => {
+  const addresses = Object.values(os.networkInterfaces()).flat().filter(info => info && info.family === 'IPv4' && !info.internal).map(info => info.address);
+  console.log(`Relay listening on port ${port}`);
+  for (const address of addresses.length > 0 ? addresses : ['localhost']) {
+    console.log(`  ws://${address}:${port}   display: http://${address}:5173/?relay=ws://${address}:${port}   remote: http://${address}:5173/remote.html?relay=ws://${address}:${port}`);
+  }
+});
+server.on('error', err => {
+  console.error(`Relay failed: ${err.message}`);
+  process.exit(1);
+});
@@ -1,5 +1,5 @@
-import { useState, useMemo, useRef, useEffect, Suspense } from 'react';
-import { Canvas, useFrame, extend } from '@react-three/fiber';
+import { useState, useMemo, useRef, useEffect, useLayoutEffect, useCallback, Suspense, type MutableRefObject } from 'react';
+import { Canvas, useFrame, useThree, extend, type ThreeEvent } from '@react-three/fiber';
 import {
   OrbitControls,
   Environment,
@@ -8,63 +8,61 @@ import {
   Float,
   Stars,
   Sparkles,
-  useTexture
+  PerformanceMonitor
 } from '@react-three/drei';
 import { EffectComposer, Bloom, Vignette } from '@react-three/postprocessing';
 import * as THREE from 'three';
 import { MathUtils } from 'three';
-import * as random from 'maath/random';
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
 import { GestureRecognizer, FilesetResolver, DrawingUtils } from "@mediapipe/tasks-vision";
+import { usePhotoManifest, usePhotoTextures, assignPhotos, createPhotoAtlas, photoName, type PhotoEntry } from './photos';
+import { useUploadedPhotos, toPhotoEntry } from './photoStore';
+import PhotoGallery from './PhotoGallery';
+import { useTour, buildTourQueue, type OrnamentStop } from './tour';
+import { CONFIG } from './config';
+import { createRng, resolveSeed } from './random';
+import { createFoliageLayout, createOrnamentLayout, createElementLayout, createLightLayout, createVolumeTargets, createSurfaceTargets, createStringTargets, createSnowLayout, createGiftPileLayout, paletteColor, elementColor } from './layout';
+import { useTreeShape, type TreeShape, type ShapeType } from './shapes';
+import { createGestureSmoother, createAxisSmoother, createTwoHandInterpreter, CONTINUOUS_ACTIONS, type CameraInput, type GestureAction, type GestureName, type HandFrame, type HandRole } from './gestures';
+import { createSceneMachine, createSceneClock, SceneContext, useScene, useSceneTransition, useSceneEvent, useTransitionStart, createTween, placeItem, isTreeMode, EASINGS, EXPLODE_SCALE, FOLLOW_RATE, type SceneMode, type SceneClock } from './sceneState';
+import { useQuality, type QualityPreset } from './quality';
+import { useTopper, createTopperGeometry, topperMaterial, type TopperSettings, type TopperType } from './toppers';
+import { createInstanceMaterial, createInstanceWriter, SCENE_BOUNDS } from './instancing';
+import { applyLightShow, createLightPalette, type Bulb, type AudioLevels } from './lightShow';
+import { LIGHT_PATTERNS, type LightPattern } from './lightPatterns';
+import { createAudioEngine, SoundContext, useSound, useAudioState, useAudioUnlock } from './audio';
+import { composeImage, downloadBlob, nextFrames, pickVideoType, type CaptureApi, type Overlay } from './capture';
+import { useTreeConfig, treeConfigToJson, type TreeColors, type TreeEffects } from './treeConfig';
+import { useEnvironment, type BackdropType, type EnvironmentSettings } from './environment';
+import { MotionContext, useMotion, useReducedMotion, motionScale, useAnnouncer, useAnnounceChange, visuallyHidden } from './accessibility';
+import { keyCommand, isReservedKey, takeNudge, createTouchGestures, type TouchPoint } from './controls';
+import { useRemoteChannel, resolveRelayUrl, type RemoteMessage, type Snapshot, type SyncState, type TourAction } from './remote';
+import { useSchedule, resolveClock, nextCountdown, type ScheduledAction } from './schedule';
+import SettingsPanel from './SettingsPanel';
+import CapturePanel from './CapturePanel';
+import CountdownOverlay from './CountdownOverlay';
+import ToolbarButton from './ToolbarButton';
 
-// --- 动态生成照片列表 (top.jpg + 1.jpg 到 31.jpg) ---
-const TOTAL_NUMBERED_PHOTOS = 42;
-// 修改：将 top.jpg 加入到数组开头
-const bodyPhotoPaths = [
-  '/photos/top.jpg',
-  ...Array.from({ length: TOTAL_NUMBERED_PHOTOS }, (_, i) => `/photos/${i + 1}.jpg`)
-];
-
-// --- 视觉配置 ---
-const CONFIG = {
-  colors: {
-    emerald: '#004225', // 纯正祖母绿
-    gold: '#FFD700',
-    silver: '#ECEFF1',
-    red: '#D32F2F',
-    green: '#2E7D32',
-    white: '#FFFFFF',   // 纯白色
-    warmLight: '#FFD54F',
-    lights: ['#FF0000', '#00FF00', '#0000FF', '#FFFF00'], // 彩灯
-    // 拍立得边框颜色池 (复古柔和色系)
-    borders: ['#FFFAF0', '#F0E68C', '#E6E6FA', '#FFB6C1', '#98FB98', '#87CEFA', '#FFDAB9'],
-    // 圣诞元素颜色
-    giftColors: ['#D32F2F', '#FFD700', '#1976D2', '#2E7D32'],
-    candyColors: ['#FF0000', '#FFFFFF']
-  },
-  counts: {
-    foliage: 15000,
-    ornaments: 300,   // 拍立得照片数量
-    elements: 200,    // 圣诞元素数量
-    lights: 400       // 彩灯数量
-  },
-  tree: { height: 22, radius: 9 }, // 树体尺寸
-  photos: {
-    // top 属性不再需要，因为已经移入 body
-    body: bodyPhotoPaths
-  }
-};
+type Seed = number | string;
+
+const easeInOutCubic = (t: number) => t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
 
 // --- Shader Material (Foliage) ---
 const FoliageMaterial = shaderMaterial(
-  { uTime: 0, uColor: new THREE.Color(CONFIG.colors.emerald), uProgress: 0 },
-  `uniform float uTime; uniform float uProgress; attribute vec3 aTargetPos; attribute float aRandom;
+  { uTime: 0, uColor: new THREE.Color(CONFIG.colors.emerald), uProgress: 0, uMorph: 1, uBurst: 0, uSpiral: 0, uHeight: CONFIG.tree.height, uExplode: EXPLODE_SCALE, uMotion: 1 },
+  `uniform float uTime; uniform float uProgress; uniform float uMorph; uniform float uBurst; uniform float uSpiral; uniform float uHeight; uniform float uExplode; uniform float uMotion;
+  attribute vec3 aTargetPos; attribute vec3 aPrevTargetPos; attribute float aRandom;
   varying vec2 vUv; varying float vMix;
   float cubicInOut(float t) { return t < 0.5 ? 4.0 * t * t * t : 0.5 * pow(2.0 * t - 2.0, 3.0) + 1.0; }
   void main() {
     vUv = uv;
-    vec3 noise = vec3(sin(uTime * 1.5 + position.x), cos(uTime + position.y), sin(uTime * 1.5 + position.z)) * 0.15;
-    float t = cubicInOut(uProgress);
-    vec3 finalPos = mix(position, aTargetPos + noise, t);
+    vec3 noise = vec3(sin(uTime * 1.5 + position.x), cos(uTime + position.y), sin(uTime * 1.5 + position.z)) * 0.15 * uMotion;
+    vec3 target = mix(aPrevTargetPos, aTargetPos, cubicInOut(uMorph));
+    // uProgress 已经在 CPU 上按状态机的缓动曲线算好；盘旋聚合时按高度从下往上依次到位
+    float h = clamp((target.y + uHeight * 0.5) / uHeight, 0.0, 1.0);
+    float t = uSpiral > 0.5 ? clamp((uProgress - h * 0.5) / 0.5, 0.0, 1.0) : uProgress;
+    vec3 finalPos = mix(position * (1.0 + uBurst * (uExplode - 1.0)), target + noise, t);
+    if (uSpiral > 0.5) { float a = (1.0 - t) * 9.42478; finalPos.xz = mat2(cos(a), -sin(a), sin(a), cos(a)) * finalPos.xz; }
     vec4 mvPosition = modelViewMatrix * vec4(finalPos, 1.0);
     gl_PointSize = (60.0 * (1.0 + aRandom)) / -mvPosition.z;
     gl_Position = projectionMatrix * mvPosition;
@@ -79,374 +77,1176 @@ const FoliageMaterial = shaderMaterial(
 );
 extend({ FoliageMaterial });
 
-// --- Helper: Tree Shape ---
-const getTreePosition = () => {
-  const h = CONFIG.tree.height; const rBase = CONFIG.tree.radius;
-  const y = (Math.random() * h) - (h / 2); const normalizedY = (y + (h/2)) / h;
-  const currentRadius = rBase * (1 - normalizedY); const theta = Math.random() * Math.PI * 2;
-  const r = Math.random() * currentRadius;
-  return [r * Math.cos(theta), y, r * Math.sin(theta)];
-};
-
 // --- Component: Foliage ---
-const Foliage = ({ state }: { state: 'CHAOS' | 'FORMED' }) => {
+const Foliage = ({ count, seed, shape, color }: { count: number, seed: Seed, shape: TreeShape, color: string }) => {
+  const scene = useScene();
+  const motion = useMotion();
   const materialRef = useRef<any>(null);
-  const { positions, targetPositions, randoms } = useMemo(() => {
-    const count = CONFIG.counts.foliage;
-    const positions = new Float32Array(count * 3); const targetPositions = new Float32Array(count * 3); const randoms = new Float32Array(count);
-    const spherePoints = random.inSphere(new Float32Array(count * 3), { radius: 25 }) as Float32Array;
-    for (let i = 0; i < count; i++) {
-      positions[i*3] = spherePoints[i*3]; positions[i*3+1] = spherePoints[i*3+1]; positions[i*3+2] = spherePoints[i*3+2];
-      const [tx, ty, tz] = getTreePosition();
-      targetPositions[i*3] = tx; targetPositions[i*3+1] = ty; targetPositions[i*3+2] = tz;
-      randoms[i] = Math.random();
-    }
-    return { positions, targetPositions, randoms };
-  }, []);
+  const targetAttrRef = useRef<THREE.BufferAttribute>(null);
+  const prevTargetAttrRef = useRef<THREE.BufferAttribute>(null);
+  const shapedRef = useRef<THREE.BufferAttribute | null>(null);
+  const { positions, randoms } = useMemo(() => createFoliageLayout(createRng(seed, 'foliage'), count), [seed, count]);
+  const targets = useMemo(() => createVolumeTargets(createRng(seed, 'foliage-target'), shape, count), [shape, seed, count]);
+  const morphBuffers = useMemo(() => [new Float32Array(count * 3), new Float32Array(count * 3)], [count]);
+  const [progress, burst, explode] = useMemo(() => [createTween(0), createTween(0), createTween(EXPLODE_SCALE)], []);
+  useSceneEvent(event => { if (event.type === 'enter') { progress.start(); burst.start(); explode.start(); } });
+
+  // 切换形状：从当前 (可能还在过渡中的) 位置出发，像 uProgress 一样由 uMorph 混合到新的目标点
+  useEffect(() => {
+    const target = targetAttrRef.current; const prev = prevTargetAttrRef.current; const material = materialRef.current;
+    if (!target || !prev || !material) return;
+    // 第一次填充 (或数量变化后重建了缓冲区) 时直接就位，不做过渡
+    const shaped = shapedRef.current === target;
+    const from = easeInOutCubic(material.uMorph);
+    for (let i = 0; i < prev.array.length; i++) prev.array[i] += (target.array[i] - prev.array[i]) * from;
+    (target.array as Float32Array).set(targets);
+    if (!shaped) (prev.array as Float32Array).set(targets);
+    target.needsUpdate = true; prev.needsUpdate = true;
+    material.uMorph = shaped ? 0 : 1;
+    shapedRef.current = target;
+  }, [targets]);
+
   useFrame((rootState, delta) => {
     if (materialRef.current) {
       materialRef.current.uTime = rootState.clock.elapsedTime;
-      const targetProgress = state === 'FORMED' ? 1 : 0;
-      materialRef.current.uProgress = MathUtils.damp(materialRef.current.uProgress, targetProgress, 1.5, delta);
+      materialRef.current.uMotion = motion;
+      const { mode, spread } = scene.get(); const t = scene.progress();
+      materialRef.current.uProgress = progress.update(isTreeMode(mode) ? 1 : 0, t);
+      materialRef.current.uBurst = burst.update(mode === 'EXPLODING' ? 1 : 0, t);
+      materialRef.current.uExplode = explode.update(EXPLODE_SCALE * spread, t);
+      materialRef.current.uSpiral = mode === 'SPIRAL_ASSEMBLE' ? 1 : 0;
+      materialRef.current.uMorph = MathUtils.damp(materialRef.current.uMorph, 1, 1.5, delta);
     }
   });
   return (
     <points>
       <bufferGeometry>
         <bufferAttribute attach="attributes-position" args={[positions, 3]} />
-        <bufferAttribute attach="attributes-aTargetPos" args={[targetPositions, 3]} />
+        <bufferAttribute ref={targetAttrRef} attach="attributes-aTargetPos" args={[morphBuffers[0], 3]} />
+        <bufferAttribute ref={prevTargetAttrRef} attach="attributes-aPrevTargetPos" args={[morphBuffers[1], 3]} />
         <bufferAttribute attach="attributes-aRandom" args={[randoms, 1]} />
       </bufferGeometry>
       {/* @ts-ignore */}
-      <foliageMaterial ref={materialRef} transparent depthWrite={false} blending={THREE.AdditiveBlending} />
+      <foliageMaterial ref={materialRef} uColor={color} uHeight={CONFIG.tree.height} transparent depthWrite={false} blending={THREE.AdditiveBlending} />
     </points>
   );
 };
 
+// --- Component: Caption Label (写在拍立得下边框上的说明和日期) ---
+const CaptionLabel = ({ photo }: { photo: PhotoEntry }) => {
+  const texture = useMemo(() => {
+    if (!photo.caption && !photo.date) return null;
+    const canvas = document.createElement('canvas');
+    canvas.width = 512; canvas.height = 160;
+    const ctx = canvas.getContext('2d')!;
+    ctx.fillStyle = '#333'; ctx.textAlign = 'center'; ctx.textBaseline = 'middle';
+    ctx.font = 'italic 52px "Segoe Script", "Bradley Hand", cursive';
+    if (photo.caption) ctx.fillText(photo.caption, 256, photo.date ? 60 : 80, 490);
+    ctx.font = '32px serif'; ctx.fillStyle = '#777';
+    if (photo.date) ctx.fillText(photo.date, 256, photo.caption ? 125 : 80, 490);
+    const tex = new THREE.CanvasTexture(canvas);
+    tex.colorSpace = THREE.SRGBColorSpace;
+    return tex;
+  }, [photo]);
+  useEffect(() => () => texture?.dispose(), [texture]);
+  if (!texture) return null;
+  return (
+    <mesh position={[0, -0.7, 0.001]}>
+      <planeGeometry args={[1.1, 0.34]} />
+      <meshBasicMaterial map={texture} transparent toneMapped={false} />
+    </mesh>
+  );
+};
+
 // --- Component: Photo Ornaments (Double-Sided Polaroid) ---
-const PhotoOrnaments = ({ state }: { state: 'CHAOS' | 'FORMED' }) => {
-  const textures = useTexture(CONFIG.photos.body);
-  const count = CONFIG.counts.ornaments;
+const FOCUS_DISTANCE = 12; // 聚焦照片距离相机的距离
+const FOCUS_SCALE = 5;
+
+type PhotoOrnamentsProps = {
+  count: number,
+  photos: PhotoEntry[],
+  focused: number | null,
+  onFocus: (index: number | null) => void,
+  pickSignal: number,
+  layoutRef: MutableRefObject<OrnamentStop[]>,
+  seed: Seed,
+  shape: TreeShape,
+  borderColors: string[]
+};
+
+const PhotoOrnaments = ({ count, photos, focused, onFocus, pickSignal, layoutRef, seed, shape, borderColors }: PhotoOrnamentsProps) => {
+  const loaded = usePhotoTextures(photos);
   const groupRef = useRef<THREE.Group>(null);
+  const photoMeshRef = useRef<THREE.InstancedMesh>(null);
+  const borderMeshRef = useRef<THREE.InstancedMesh>(null);
+  const captionRef = useRef<THREE.Group>(null);
+  const camera = useThree(s => s.camera);
+  const scene = useScene();
+  const motion = useMotion();
+  const scratch = useMemo(() => new THREE.Vector3(), []);
+  const lookTarget = useMemo(() => new THREE.Vector3(), []);
+  const wall = useMemo(() => ({ center: new THREE.Vector3(), right: new THREE.Vector3(), up: new THREE.Vector3() }), []);
+  const writer = useMemo(() => createInstanceWriter(), []);
 
-  const borderGeometry = useMemo(() => new THREE.PlaneGeometry(1.2, 1.5), []);
-  const photoGeometry = useMemo(() => new THREE.PlaneGeometry(1, 1), []);
+  // 正反两面合并成一个几何体，每个拍立得只占一个实例
+  const photoGeometry = useMemo(() => mergeGeometries([
+    new THREE.PlaneGeometry(1, 1).translate(0, 0, 0.015),
+    new THREE.PlaneGeometry(1, 1).rotateY(Math.PI).translate(0, 0, -0.015)
+  ]), []);
+  const borderGeometry = useMemo(() => mergeGeometries([
+    new THREE.PlaneGeometry(1.2, 1.5).translate(0, -0.15, 0.005),
+    new THREE.PlaneGeometry(1.2, 1.5).rotateY(Math.PI).translate(0, -0.15, -0.005)
+  ]), []);
+  const atlas = useMemo(() => createPhotoAtlas(loaded), [loaded]);
+  const photoMaterial = useMemo(() => createInstanceMaterial({ map: atlas.texture, emissive: CONFIG.colors.white, emissiveMap: atlas.texture, emissiveIntensity: 1.0, roughness: 0.5, metalness: 0 }, { uvRect: true }), [atlas]);
+  const borderMaterial = useMemo(() => new THREE.MeshStandardMaterial({ roughness: 0.9, metalness: 0 }), []);
+  useEffect(() => () => { atlas.texture.dispose(); photoMaterial.dispose(); }, [atlas, photoMaterial]);
 
   const data = useMemo(() => {
-    return new Array(count).fill(0).map((_, i) => {
-      const chaosPos = new THREE.Vector3((Math.random()-0.5)*70, (Math.random()-0.5)*70, (Math.random()-0.5)*70);
-      const h = CONFIG.tree.height; const y = (Math.random() * h) - (h / 2);
-      const rBase = CONFIG.tree.radius;
-      const currentRadius = (rBase * (1 - (y + (h/2)) / h)) + 0.5;
-      const theta = Math.random() * Math.PI * 2;
-      const targetPos = new THREE.Vector3(currentRadius * Math.cos(theta), y, currentRadius * Math.sin(theta));
-
-      const isBig = Math.random() < 0.2;
-      const baseScale = isBig ? 2.2 : 0.8 + Math.random() * 0.6;
-      const weight = 0.8 + Math.random() * 1.2;
-      const borderColor = CONFIG.colors.borders[Math.floor(Math.random() * CONFIG.colors.borders.length)];
-
-      const rotationSpeed = {
-        x: (Math.random() - 0.5) * 1.0,
-        y: (Math.random() - 0.5) * 1.0,
-        z: (Math.random() - 0.5) * 1.0
-      };
-      const chaosRotation = new THREE.Euler(Math.random()*Math.PI, Math.random()*Math.PI, Math.random()*Math.PI);
+    const assignment = assignPhotos(count, loaded.map(l => l.photo));
+    const layout = createOrnamentLayout(createRng(seed, 'ornaments'), assignment.map(i => !!loaded[i].photo.featured));
+    return layout.map((item, i) => ({ ...item, photo: loaded[assignment[i]].photo, photoIndex: assignment[i] }));
+  }, [loaded, count, seed]);
+  const targets = useMemo(() => createSurfaceTargets(createRng(seed, 'ornaments-target'), shape, data.length, 1, 0.5), [shape, seed, data.length]);
+  useTransitionStart(data);
 
-      return {
-        chaosPos, targetPos, scale: baseScale, weight,
-        textureIndex: i % textures.length,
-        borderColor,
-        currentPos: chaosPos.clone(),
-        chaosRotation,
-        rotationSpeed,
-        wobbleOffset: Math.random() * 10,
-        wobbleSpeed: 0.5 + Math.random() * 0.5
-      };
+  // 每个实例的照片在图集中的区域和边框颜色
+  useLayoutEffect(() => {
+    photoGeometry.setAttribute('aUvRect', new THREE.InstancedBufferAttribute(new Float32Array(data.flatMap(item => atlas.rects[item.photoIndex])), 4));
+  }, [data, atlas, photoGeometry]);
+  useLayoutEffect(() => {
+    const border = borderMeshRef.current; if (!border) return;
+    const color = new THREE.Color();
+    data.forEach((item, i) => border.setColorAt(i, color.set(paletteColor(borderColors, item.borderRoll))));
+    if (border.instanceColor) border.instanceColor.needsUpdate = true;
+  }, [data, borderColors]);
+
+  // 照片列表变化后原来的索引失效
+  useEffect(() => { onFocus(null); }, [data, onFocus]);
+  useEffect(() => { layoutRef.current = data.map((item, i) => ({ ...item, targetPos: targets[i] })); }, [data, targets, layoutRef]);
+
+  // 照片墙：每张照片只取一个拍立得，按网格排列 (相对于墙中心的偏移)
+  const wallSlots = useMemo(() => {
+    const seen = new Set<PhotoEntry>(); const picked: number[] = [];
+    data.forEach((item, i) => {
+      if (seen.has(item.photo) || picked.length >= CONFIG.scene.gallery.max) return;
+      seen.add(item.photo); picked.push(i);
     });
-  }, [textures, count]);
+    const cols = Math.ceil(Math.sqrt(picked.length * 1.5)); const rows = Math.ceil(picked.length / cols);
+    const { spacing } = CONFIG.scene.gallery;
+    return new Map(picked.map((index, k) => [index, [((k % cols) - (cols - 1) / 2) * spacing, ((rows - 1) / 2 - Math.floor(k / cols)) * spacing * 1.25] as const]));
+  }, [data]);
+
+  // 捏合手势：选中离屏幕中心最近、且离相机较近的照片
+  useEffect(() => {
+    if (!pickSignal || !groupRef.current) return;
+    let best = -1; let bestScore = Infinity;
+    data.forEach((item, i) => {
+      groupRef.current!.localToWorld(scratch.copy(item.currentPos));
+      const distance = scratch.distanceTo(camera.position);
+      scratch.project(camera);
+      if (scratch.z > 1 || Math.abs(scratch.x) > 1 || Math.abs(scratch.y) > 1) return;
+      const score = Math.hypot(scratch.x, scratch.y) + distance / 100;
+      if (score < bestScore) { bestScore = score; best = i; }
+    });
+    if (best >= 0) onFocus(best);
+  }, [pickSignal, camera, scratch, onFocus, data]);
 
   useFrame((stateObj, delta) => {
-    if (!groupRef.current) return;
-    const isFormed = state === 'FORMED';
+    const photoMesh = photoMeshRef.current; const borderMesh = borderMeshRef.current;
+    if (!groupRef.current || !photoMesh || !borderMesh) return;
+    const { mode, spread } = scene.get(); const t = scene.progress();
     const time = stateObj.clock.elapsedTime;
+    const follow = Math.min(1, delta * FOLLOW_RATE);
+    const { dummy } = writer;
+    if (mode === 'GALLERY') {
+      // 照片墙立在镜头环绕的中心，始终正对镜头
+      groupRef.current.worldToLocal(wall.center.set(0, 0, 0));
+      wall.right.set(1, 0, 0).applyQuaternion(camera.quaternion); wall.up.set(0, 1, 0).applyQuaternion(camera.quaternion);
+    }
 
-    groupRef.current.children.forEach((group, i) => {
+    for (let i = 0; i < data.length; i++) {
       const objData = data[i];
-      const target = isFormed ? objData.targetPos : objData.chaosPos;
-
-      objData.currentPos.lerp(target, delta * (isFormed ? 0.8 * objData.weight : 0.5));
-      group.position.copy(objData.currentPos);
-
-      if (isFormed) {
-         const targetLookPos = new THREE.Vector3(group.position.x * 2, group.position.y + 0.5, group.position.z * 2);
-         group.lookAt(targetLookPos);
-
-         const wobbleX = Math.sin(time * objData.wobbleSpeed + objData.wobbleOffset) * 0.05;
-         const wobbleZ = Math.cos(time * objData.wobbleSpeed * 0.8 + objData.wobbleOffset) * 0.05;
-         group.rotation.x += wobbleX;
-         group.rotation.z += wobbleZ;
+      dummy.quaternion.copy(objData.quaternion);
+      const slot = mode === 'GALLERY' ? wallSlots.get(i) : undefined;
 
+      if (i === focused) {
+        // 飞到相机正前方并保持正立
+        const focusPos = scratch.set(0, 0, -FOCUS_DISTANCE).applyQuaternion(camera.quaternion).add(camera.position);
+        objData.currentPos.lerp(groupRef.current.worldToLocal(focusPos), Math.min(1, delta * 4));
+        dummy.quaternion.slerp(camera.quaternion, Math.min(1, delta * 6));
+        objData.currentScale = MathUtils.damp(objData.currentScale, FOCUS_SCALE, 4, delta);
+      } else if (slot) {
+        scratch.copy(wall.center).addScaledVector(wall.right, slot[0]).addScaledVector(wall.up, slot[1]);
+        objData.currentPos.lerp(scratch.lerpVectors(objData.startPos, scratch, t), follow);
+        dummy.quaternion.slerp(camera.quaternion, Math.min(1, delta * 4));
+        objData.currentScale = MathUtils.damp(objData.currentScale, CONFIG.scene.gallery.scale, 4, delta);
       } else {
-         group.rotation.x += delta * objData.rotationSpeed.x;
-         group.rotation.y += delta * objData.rotationSpeed.y;
-         group.rotation.z += delta * objData.rotationSpeed.z;
+        objData.currentScale = MathUtils.damp(objData.currentScale, objData.scale, 4, delta);
+        // weight 越大越早到位
+        placeItem(scratch, mode, Math.pow(t, 1 / objData.weight), objData.startPos, objData.chaosPos, targets[i], spread);
+        objData.currentPos.lerp(scratch, follow);
+        if (isTreeMode(mode)) {
+          dummy.position.copy(objData.currentPos);
+          dummy.lookAt(lookTarget.set(objData.currentPos.x * 2, objData.currentPos.y + 0.5, objData.currentPos.z * 2));
+          dummy.rotation.x += Math.sin(time * objData.wobbleSpeed + objData.wobbleOffset) * 0.05 * motion;
+          dummy.rotation.z += Math.cos(time * objData.wobbleSpeed * 0.8 + objData.wobbleOffset) * 0.05 * motion;
+        } else {
+          dummy.rotation.x += delta * objData.rotationSpeed.x * motion;
+          dummy.rotation.y += delta * objData.rotationSpeed.y * motion;
+          dummy.rotation.z += delta * objData.rotationSpeed.z * motion;
+        }
       }
-    });
+
+      objData.quaternion.copy(dummy.quaternion);
+      dummy.position.copy(objData.currentPos);
+      dummy.scale.setScalar(objData.currentScale);
+      writer.write(photoMesh, i);
+      borderMesh.setMatrixAt(i, dummy.matrix);
+      if (i === focused && captionRef.current) captionRef.current.matrix.copy(dummy.matrix);
+    }
+    photoMesh.instanceMatrix.needsUpdate = true;
+    borderMesh.instanceMatrix.needsUpdate = true;
   });
 
+  const handleClick = (e: ThreeEvent<MouseEvent>) => {
+    if (e.instanceId === undefined) return;
+    e.stopPropagation();
+    onFocus(e.instanceId === focused ? null : e.instanceId);
+  };
+
+  if (data.length === 0) return null;
   return (
     <group ref={groupRef}>
-      {data.map((obj, i) => (
-        <group key={i} scale={[obj.scale, obj.scale, obj.scale]} rotation={state === 'CHAOS' ? obj.chaosRotation : [0,0,0]}>
-          {/* 正面 */}
-          <group position={[0, 0, 0.015]}>
-            <mesh geometry={photoGeometry}>
-              <meshStandardMaterial
-                map={textures[obj.textureIndex]}
-                roughness={0.5} metalness={0}
-                emissive={CONFIG.colors.white} emissiveMap={textures[obj.textureIndex]} emissiveIntensity={1.0}
-                side={THREE.FrontSide}
-              />
-            </mesh>
-            <mesh geometry={borderGeometry} position={[0, -0.15, -0.01]}>
-              <meshStandardMaterial color={obj.borderColor} roughness={0.9} metalness={0} side={THREE.FrontSide} />
-            </mesh>
-          </group>
-          {/* 背面 */}
-          <group position={[0, 0, -0.015]} rotation={[0, Math.PI, 0]}>
-            <mesh geometry={photoGeometry}>
-              <meshStandardMaterial
-                map={textures[obj.textureIndex]}
-                roughness={0.5} metalness={0}
-                emissive={CONFIG.colors.white} emissiveMap={textures[obj.textureIndex]} emissiveIntensity={1.0}
-                side={THREE.FrontSide}
-              />
-            </mesh>
-            <mesh geometry={borderGeometry} position={[0, -0.15, -0.01]}>
-              <meshStandardMaterial color={obj.borderColor} roughness={0.9} metalness={0} side={THREE.FrontSide} />
-            </mesh>
-          </group>
+      <instancedMesh key={`photo-${data.length}`} ref={photoMeshRef} args={[photoGeometry, photoMaterial, data.length]} frustumCulled={false} boundingSphere={SCENE_BOUNDS} onClick={handleClick} />
+      <instancedMesh key={`border-${data.length}`} ref={borderMeshRef} args={[borderGeometry, borderMaterial, data.length]} frustumCulled={false} boundingSphere={SCENE_BOUNDS} onClick={handleClick} />
+      {/* 说明文字跟随聚焦的实例 */}
+      {focused !== null && data[focused] && (
+        <group ref={captionRef} matrixAutoUpdate={false}>
+          <group position={[0, 0, 0.015]}><CaptionLabel photo={data[focused].photo} /></group>
         </group>
-      ))}
+      )}
     </group>
   );
 };
 
+// --- Component: Focus Dimmer (聚焦照片时压暗背后的整棵树) ---
+const FocusDimmer = ({ active }: { active: boolean }) => {
+  const meshRef = useRef<THREE.Mesh>(null);
+  const camera = useThree(s => s.camera);
+  useFrame((_, delta) => {
+    if (!meshRef.current) return;
+    const material = meshRef.current.material as THREE.MeshBasicMaterial;
+    material.opacity = MathUtils.damp(material.opacity, active ? 0.7 : 0, 4, delta);
+    meshRef.current.visible = material.opacity > 0.01;
+    meshRef.current.position.set(0, 0, -(FOCUS_DISTANCE + 2)).applyQuaternion(camera.quaternion).add(camera.position);
+    meshRef.current.quaternion.copy(camera.quaternion);
+  });
+  return (
+    <mesh ref={meshRef} renderOrder={10} visible={false}>
+      <planeGeometry args={[400, 400]} />
+      <meshBasicMaterial color="#000000" transparent opacity={0} depthWrite={false} />
+    </mesh>
+  );
+};
+
 // --- Component: Christmas Elements ---
-const ChristmasElements = ({ state }: { state: 'CHAOS' | 'FORMED' }) => {
-  const count = CONFIG.counts.elements;
-  const groupRef = useRef<THREE.Group>(null);
+const GIFT_SIZE = 0.8; // 礼物盒边长，树下的礼物堆也用同样的几何体
 
-  const boxGeometry = useMemo(() => new THREE.BoxGeometry(0.8, 0.8, 0.8), []);
-  const sphereGeometry = useMemo(() => new THREE.SphereGeometry(0.5, 16, 16), []);
-  const caneGeometry = useMemo(() => new THREE.CylinderGeometry(0.15, 0.15, 1.2, 8), []);
+const ChristmasElements = ({ count, seed, shape, colors }: { count: number, seed: Seed, shape: TreeShape, colors: TreeColors }) => {
+  const meshRefs = useRef<(THREE.InstancedMesh | null)[]>([]);
+  const scene = useScene();
+  const motion = useMotion();
+  const scratch = useMemo(() => new THREE.Vector3(), []);
+  const writer = useMemo(() => createInstanceWriter(), []);
 
-  const data = useMemo(() => {
-    return new Array(count).fill(0).map(() => {
-      const chaosPos = new THREE.Vector3((Math.random()-0.5)*60, (Math.random()-0.5)*60, (Math.random()-0.5)*60);
-      const h = CONFIG.tree.height;
-      const y = (Math.random() * h) - (h / 2);
-      const rBase = CONFIG.tree.radius;
-      const currentRadius = (rBase * (1 - (y + (h/2)) / h)) * 0.95;
-      const theta = Math.random() * Math.PI * 2;
-
-      const targetPos = new THREE.Vector3(currentRadius * Math.cos(theta), y, currentRadius * Math.sin(theta));
-
-      const type = Math.floor(Math.random() * 3);
-      let color; let scale = 1;
-      if (type === 0) { color = CONFIG.colors.giftColors[Math.floor(Math.random() * CONFIG.colors.giftColors.length)]; scale = 0.8 + Math.random() * 0.4; }
-      else if (type === 1) { color = CONFIG.colors.giftColors[Math.floor(Math.random() * CONFIG.colors.giftColors.length)]; scale = 0.6 + Math.random() * 0.4; }
-      else { color = Math.random() > 0.5 ? CONFIG.colors.red : CONFIG.colors.white; scale = 0.7 + Math.random() * 0.3; }
-
-      const rotationSpeed = { x: (Math.random()-0.5)*2.0, y: (Math.random()-0.5)*2.0, z: (Math.random()-0.5)*2.0 };
-      return { type, chaosPos, targetPos, color, scale, currentPos: chaosPos.clone(), chaosRotation: new THREE.Euler(Math.random()*Math.PI, Math.random()*Math.PI, Math.random()*Math.PI), rotationSpeed };
+  // 0: 礼物盒  1: 彩球  2: 拐杖糖，每种一个 InstancedMesh
+  const geometries = useMemo(() => [
+    new THREE.BoxGeometry(GIFT_SIZE, GIFT_SIZE, GIFT_SIZE),
+    new THREE.SphereGeometry(0.5, 16, 16),
+    new THREE.CylinderGeometry(0.15, 0.15, 1.2, 8)
+  ], []);
+  const material = useMemo(() => createInstanceMaterial({ roughness: 0.3, metalness: 0.4, emissive: CONFIG.colors.white, emissiveIntensity: 0.2 }, { emissiveFromColor: true }), []);
+
+  const data = useMemo(() => createElementLayout(createRng(seed, 'elements'), count), [count, seed]);
+  const targets = useMemo(() => createSurfaceTargets(createRng(seed, 'elements-target'), shape, count, 0.95), [shape, seed, count]);
+  const byType = useMemo(() => geometries.map((_, type) => data.flatMap((item, i) => item.type === type ? [i] : [])), [data, geometries]);
+  useTransitionStart(data);
+
+  useLayoutEffect(() => {
+    const color = new THREE.Color();
+    byType.forEach((indices, type) => {
+      const mesh = meshRefs.current[type]; if (!mesh) return;
+      indices.forEach((index, k) => mesh.setColorAt(k, color.set(elementColor(data[index], colors))));
+      if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
     });
-  }, [boxGeometry, sphereGeometry, caneGeometry]);
+  }, [byType, data, colors]);
 
   useFrame((_, delta) => {
-    if (!groupRef.current) return;
-    const isFormed = state === 'FORMED';
-    groupRef.current.children.forEach((child, i) => {
-      const mesh = child as THREE.Mesh;
-      const objData = data[i];
-      const target = isFormed ? objData.targetPos : objData.chaosPos;
-      objData.currentPos.lerp(target, delta * 1.5);
-      mesh.position.copy(objData.currentPos);
-      mesh.rotation.x += delta * objData.rotationSpeed.x; mesh.rotation.y += delta * objData.rotationSpeed.y; mesh.rotation.z += delta * objData.rotationSpeed.z;
+    const { mode, spread } = scene.get(); const t = scene.progress();
+    const { dummy } = writer;
+    const spin = delta * motion;
+    byType.forEach((indices, type) => {
+      const mesh = meshRefs.current[type]; if (!mesh) return;
+      for (let k = 0; k < indices.length; k++) {
+        const objData = data[indices[k]];
+        placeItem(scratch, mode, t, objData.startPos, objData.chaosPos, targets[indices[k]], spread);
+        objData.currentPos.lerp(scratch, Math.min(1, delta * FOLLOW_RATE));
+        objData.rotation.x += spin * objData.rotationSpeed.x; objData.rotation.y += spin * objData.rotationSpeed.y; objData.rotation.z += spin * objData.rotationSpeed.z;
+        dummy.position.copy(objData.currentPos); dummy.rotation.copy(objData.rotation); dummy.scale.setScalar(objData.scale);
+        writer.write(mesh, k);
+      }
+      mesh.instanceMatrix.needsUpdate = true;
     });
   });
 
   return (
-    <group ref={groupRef}>
-      {data.map((obj, i) => {
-        let geometry; if (obj.type === 0) geometry = boxGeometry; else if (obj.type === 1) geometry = sphereGeometry; else geometry = caneGeometry;
-        return ( <mesh key={i} scale={[obj.scale, obj.scale, obj.scale]} geometry={geometry} rotation={obj.chaosRotation}>
-          <meshStandardMaterial color={obj.color} roughness={0.3} metalness={0.4} emissive={obj.color} emissiveIntensity={0.2} />
-        </mesh> )})}
+    <group>
+      {byType.map((indices, type) => (
+        <instancedMesh key={`${type}-${indices.length}`} ref={mesh => { meshRefs.current[type] = mesh; }} args={[geometries[type], material, indices.length]} frustumCulled={false} />
+      ))}
     </group>
   );
 };
 
 // --- Component: Fairy Lights ---
-const FairyLights = ({ state }: { state: 'CHAOS' | 'FORMED' }) => {
-  const count = CONFIG.counts.lights;
-  const groupRef = useRef<THREE.Group>(null);
+const FairyLights = ({ count, seed, shape, lit, pattern, audio, colors }: { count: number, seed: Seed, shape: TreeShape, lit: boolean, pattern: LightPattern, audio: AudioLevels | null, colors: TreeColors }) => {
+  const meshRef = useRef<THREE.InstancedMesh>(null);
+  const scene = useScene();
+  const motion = useMotion();
+  const scratch = useMemo(() => new THREE.Vector3(), []);
+  const writer = useMemo(() => createInstanceWriter(), []);
   const geometry = useMemo(() => new THREE.SphereGeometry(0.8, 8, 8), []);
+  const material = useMemo(() => createInstanceMaterial({ emissive: CONFIG.colors.white, toneMapped: false }, { emissiveFromColor: true, emissiveAttribute: true }), []);
 
-  const data = useMemo(() => {
-    return new Array(count).fill(0).map(() => {
-      const chaosPos = new THREE.Vector3((Math.random()-0.5)*60, (Math.random()-0.5)*60, (Math.random()-0.5)*60);
-      const h = CONFIG.tree.height; const y = (Math.random() * h) - (h / 2); const rBase = CONFIG.tree.radius;
-      const currentRadius = (rBase * (1 - (y + (h/2)) / h)) + 0.3; const theta = Math.random() * Math.PI * 2;
-      const targetPos = new THREE.Vector3(currentRadius * Math.cos(theta), y, currentRadius * Math.sin(theta));
-      const color = CONFIG.colors.lights[Math.floor(Math.random() * CONFIG.colors.lights.length)];
-      const speed = 2 + Math.random() * 3;
-      return { chaosPos, targetPos, color, speed, currentPos: chaosPos.clone(), timeOffset: Math.random() * 100 };
-    });
-  }, []);
+  const data = useMemo(() => createLightLayout(createRng(seed, 'lights'), count), [count, seed]);
+  // 彩灯按顺序串在绕树的灯串上，追逐类的效果才能沿着灯串走
+  const strings = useMemo(() => createStringTargets(createRng(seed, 'lights-target'), shape, count, CONFIG.lightShow.strings, CONFIG.lightShow.turns, 0.3), [shape, seed, count]);
+  const targets = strings.positions;
+  const bulbs = useMemo<Bulb[]>(() => data.map((item, i) => ({
+    order: strings.order[i],
+    height: THREE.MathUtils.clamp((targets[i].y + CONFIG.tree.height / 2) / CONFIG.tree.height, 0, 1),
+    speed: item.speed, timeOffset: item.timeOffset, color: new THREE.Color(paletteColor(colors.lights, item.colorRoll))
+  })), [data, strings, targets, colors.lights]);
+  const bulbColor = useMemo(() => new THREE.Color(), []);
+  const palette = useMemo(() => createLightPalette(colors), [colors]);
+  // 每个灯泡的亮度
+  const emissive = useMemo(() => new THREE.InstancedBufferAttribute(new Float32Array(count), 1), [count]);
+  useTransitionStart(data);
+
+  useLayoutEffect(() => { geometry.setAttribute('aEmissive', emissive); }, [geometry, emissive]);
 
   useFrame((stateObj, delta) => {
-    if (!groupRef.current) return;
-    const isFormed = state === 'FORMED';
+    const mesh = meshRef.current; if (!mesh) return;
+    const { mode, spread } = scene.get(); const t = scene.progress();
     const time = stateObj.clock.elapsedTime;
-    groupRef.current.children.forEach((child, i) => {
+    const { dummy } = writer;
+    dummy.rotation.set(0, 0, 0); dummy.scale.setScalar(0.15);
+    for (let i = 0; i < data.length; i++) {
       const objData = data[i];
-      const target = isFormed ? objData.targetPos : objData.chaosPos;
-      objData.currentPos.lerp(target, delta * 2.0);
-      const mesh = child as THREE.Mesh;
-      mesh.position.copy(objData.currentPos);
-      const intensity = (Math.sin(time * objData.speed + objData.timeOffset) + 1) / 2;
-      if (mesh.material) { (mesh.material as THREE.MeshStandardMaterial).emissiveIntensity = isFormed ? 3 + intensity * 4 : 0; }
-    });
+      // 彩灯到位之后才亮 (盘旋聚合时从下往上依次点亮)
+      const arrived = placeItem(scratch, mode, t, objData.startPos, objData.chaosPos, targets[i], spread) > 0.95;
+      objData.currentPos.lerp(scratch, Math.min(1, delta * FOLLOW_RATE));
+      dummy.position.copy(objData.currentPos);
+      writer.write(mesh, i);
+      const intensity = applyLightShow(pattern, bulbs[i], time, audio, palette, bulbColor, motion);
+      mesh.setColorAt(i, bulbColor);
+      emissive.setX(i, isTreeMode(mode) && arrived && lit ? intensity : 0);
+    }
+    mesh.instanceMatrix.needsUpdate = true;
+    if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+    emissive.needsUpdate = true;
   });
 
+  return <instancedMesh key={count} ref={meshRef} args={[geometry, material, count]} frustumCulled={false} />;
+};
+
+// --- Component: Hero Photo (树顶照片，居中裁成正方形) ---
+const HERO_FRAME = 1.9;
+
+const HeroPhoto = ({ texture, placement, surface }: { texture: THREE.Texture, placement: 'inset' | 'front', surface: number }) => {
+  const cropped = useMemo(() => {
+    const tex = texture.clone();
+    const image = tex.image as HTMLImageElement;
+    const crop = Math.min(image.width, image.height);
+    tex.repeat.set(crop / image.width, crop / image.height);
+    tex.offset.set((1 - tex.repeat.x) / 2, (1 - tex.repeat.y) / 2);
+    tex.colorSpace = THREE.SRGBColorSpace;
+    tex.needsUpdate = true;
+    return tex;
+  }, [texture]);
+  useEffect(() => () => cropped.dispose(), [cropped]);
+
+  // 嵌在装饰中间，正反两面都有 (surface 是装饰正面的 z 坐标)
+  if (placement === 'inset') return (
+    <>
+      {[1, -1].map(side => (
+        <mesh key={side} position={[0, 0, side * (surface + 0.02)]} rotation={[0, side < 0 ? Math.PI : 0, 0]}>
+          <circleGeometry args={[0.55, 48]} />
+          <meshBasicMaterial map={cropped} />
+        </mesh>
+      ))}
+    </>
+  );
+  // 装进金色相框挂在装饰前面
   return (
-    <group ref={groupRef}>
-      {data.map((obj, i) => ( <mesh key={i} scale={[0.15, 0.15, 0.15]} geometry={geometry}>
-          <meshStandardMaterial color={obj.color} emissive={obj.color} emissiveIntensity={0} toneMapped={false} />
-        </mesh> ))}
+    <group position={[0, 0, surface + 0.3]}>
+      <mesh position={[0, 0, -0.04]}>
+        <boxGeometry args={[HERO_FRAME + 0.24, HERO_FRAME + 0.24, 0.06]} />
+        <meshStandardMaterial color={CONFIG.colors.gold} emissive={CONFIG.colors.gold} emissiveIntensity={0.3} roughness={0.2} metalness={1} />
+      </mesh>
+      <mesh>
+        <planeGeometry args={[HERO_FRAME, HERO_FRAME]} />
+        <meshBasicMaterial map={cropped} />
+      </mesh>
     </group>
   );
 };
 
-// --- Component: Top Star (No Photo, Pure Gold 3D Star) ---
-const TopStar = ({ state }: { state: 'CHAOS' | 'FORMED' }) => {
+// --- Component: Tree Topper (五角星 / 天使 / 蝴蝶结 / 雪花 / 自定义 SVG) ---
+const Topper = ({ type, svg, hero, colors }: { type: TopperType, svg: string | null, hero: PhotoEntry | null, colors: TreeColors }) => {
   const groupRef = useRef<THREE.Group>(null);
+  const scene = useScene();
+  const motion = useMotion();
+  const scale = useMemo(() => createTween(0), []);
+  useSceneEvent(event => { if (event.type === 'enter') scale.start(); });
 
-  const starShape = useMemo(() => {
-    const shape = new THREE.Shape();
-    const outerRadius = 1.3; const innerRadius = 0.7; const points = 5;
-    for (let i = 0; i < points * 2; i++) {
-      const radius = i % 2 === 0 ? outerRadius : innerRadius;
-      const angle = (i / (points * 2)) * Math.PI * 2 - Math.PI / 2;
-      i === 0 ? shape.moveTo(radius*Math.cos(angle), radius*Math.sin(angle)) : shape.lineTo(radius*Math.cos(angle), radius*Math.sin(angle));
+  const geometry = useMemo(() => {
+    try {
+      return createTopperGeometry(type, svg);
+    } catch (err) {
+      console.warn('[topper] invalid svg, falling back to star', err);
+      return createTopperGeometry('star', null);
     }
-    shape.closePath();
-    return shape;
-  }, []);
+  }, [type, svg]);
+  const material = useMemo(() => new THREE.MeshStandardMaterial(topperMaterial(type, colors)), [type, colors]);
+  useEffect(() => () => { geometry.dispose(); material.dispose(); }, [geometry, material]);
 
-  const starGeometry = useMemo(() => {
-    return new THREE.ExtrudeGeometry(starShape, {
-      depth: 0.4, // 增加一点厚度
-      bevelEnabled: true, bevelThickness: 0.1, bevelSize: 0.1, bevelSegments: 3,
-    });
-  }, [starShape]);
-
-  // 纯金材质
-  const goldMaterial = useMemo(() => new THREE.MeshStandardMaterial({
-    color: CONFIG.colors.gold,
-    emissive: CONFIG.colors.gold,
-    emissiveIntensity: 1.5, // 适中亮度，既发光又有质感
-    roughness: 0.1,
-    metalness: 1.0,
-  }), []);
+  const heroList = useMemo(() => hero ? [hero] : [], [hero]);
+  const heroTexture = usePhotoTextures(heroList)[0];
 
   useFrame((_, delta) => {
     if (groupRef.current) {
-      groupRef.current.rotation.y += delta * 0.5;
-      const targetScale = state === 'FORMED' ? 1 : 0;
-      groupRef.current.scale.lerp(new THREE.Vector3(targetScale, targetScale, targetScale), delta * 3);
+      groupRef.current.rotation.y += delta * 0.5 * motion;
+      // 盘旋聚合时最后才出现
+      const { mode } = scene.get(); const t = scene.progress();
+      groupRef.current.scale.setScalar(scale.update(isTreeMode(mode) ? 1 : 0, mode === 'SPIRAL_ASSEMBLE' ? Math.max(0, t * 2 - 1) : t));
     }
   });
 
   return (
     <group ref={groupRef} position={[0, CONFIG.tree.height / 2 + 1.8, 0]}>
-      <Float speed={2} rotationIntensity={0.2} floatIntensity={0.2}>
-        <mesh geometry={starGeometry} material={goldMaterial} />
+      <Float speed={2 * motion} rotationIntensity={0.2 * motion} floatIntensity={0.2 * motion}>
+        <mesh geometry={geometry} material={material} />
+        {heroTexture && <HeroPhoto texture={heroTexture.texture} placement={CONFIG.topper.heroPlacement} surface={geometry.boundingBox?.max.z ?? 0.3} />}
       </Float>
     </group>
   );
 };
 
+// --- Component: Snow Globe (SNOWGLOBE 状态下把整棵树装进玻璃球) ---
+const GLOBE_RADIUS = 16.5;
+
+const SnowGlobe = () => {
+  const groupRef = useRef<THREE.Group>(null);
+  const scene = useScene();
+  const motion = useMotion();
+  const scale = useMemo(() => createTween(0), []);
+  useSceneEvent(event => { if (event.type === 'enter') scale.start(); });
+
+  useFrame(() => {
+    if (!groupRef.current) return;
+    const value = scale.update(scene.get().mode === 'SNOWGLOBE' ? 1 : 0, scene.progress());
+    groupRef.current.scale.setScalar(Math.max(value, 1e-3));
+    groupRef.current.visible = value > 0.01;
+  });
+
+  return (
+    <group ref={groupRef} position={[0, 1, 0]} visible={false}>
+      <mesh>
+        <sphereGeometry args={[GLOBE_RADIUS, 64, 32]} />
+        <meshPhysicalMaterial color="#ffffff" roughness={0} metalness={0} clearcoat={1} transparent opacity={0.12} depthWrite={false} />
+      </mesh>
+      <mesh position={[0, -GLOBE_RADIUS + 1, 0]}>
+        <cylinderGeometry args={[11, 12.5, 4, 48]} />
+        <meshStandardMaterial color="#3b1d0e" roughness={0.4} metalness={0.2} />
+      </mesh>
+      <mesh position={[0, -GLOBE_RADIUS + 3.05, 0]}>
+        <torusGeometry args={[11, 0.25, 8, 64]} />
+        <meshStandardMaterial color={CONFIG.colors.gold} emissive={CONFIG.colors.gold} emissiveIntensity={0.3} roughness={0.2} metalness={1} />
+      </mesh>
+      {/* 球里的雪 */}
+      <Sparkles count={300} scale={GLOBE_RADIUS * 1.3} size={6} speed={1.2 * motion} opacity={0.8} color={CONFIG.colors.white} />
+    </group>
+  );
+};
+
+// --- Shader Material (Snow) ---
+const SnowMaterial = shaderMaterial(
+  { uTime: 0, uDrift: new THREE.Vector2(), uSwirl: 0, uPhase: 0, uSpeed: 3, uArea: 110, uHeight: 70, uSize: 1, uColor: new THREE.Color(CONFIG.colors.white) },
+  `uniform float uTime; uniform vec2 uDrift; uniform float uSwirl; uniform float uPhase; uniform float uSpeed; uniform float uArea; uniform float uHeight; uniform float uSize;
+  attribute float aRandom;
+  varying float vAlpha;
+  void main() {
+    vec3 p = position;
+    // 下落 + 被风吹走，超出范围后从另一边绕回来
+    p.y = mod(p.y - uTime * uSpeed * (0.6 + aRandom * 0.8), uHeight);
+    p.xz += uDrift + vec2(sin(uTime * (0.8 + aRandom) + aRandom * 40.0), cos(uTime * (0.6 + aRandom) + aRandom * 25.0)) * 0.8;
+    p.xz = mod(p.xz + uArea * 0.5, uArea) - uArea * 0.5;
+    // 散开时卷成旋涡：越靠近中心转得越快，同时上下翻卷
+    float a = uPhase * (0.5 + aRandom) * (1.0 + 20.0 / (length(p.xz) + 5.0));
+    p.xz = mat2(cos(a), -sin(a), sin(a), cos(a)) * p.xz;
+    p.y += uSwirl * sin(uPhase * 0.7 + aRandom * 6.2832) * 4.0;
+    vec4 mvPosition = modelViewMatrix * vec4(p, 1.0);
+    gl_PointSize = uSize * (150.0 * (0.5 + aRandom)) / -mvPosition.z;
+    gl_Position = projectionMatrix * mvPosition;
+    vAlpha = smoothstep(0.0, 2.0, p.y) * smoothstep(uHeight, uHeight - 6.0, p.y);
+  }`,
+  `uniform vec3 uColor; varying float vAlpha;
+  void main() {
+    float r = distance(gl_PointCoord, vec2(0.5)); if (r > 0.5) discard;
+    gl_FragColor = vec4(uColor, smoothstep(0.5, 0.1, r) * vAlpha * 0.9);
+  }`
+);
+
+// --- Component: Snowfall (GPU 粒子，随风飘落，散开时卷成旋涡) ---
+const Snowfall = ({ count, seed, wind }: { count: number, seed: Seed, wind: number }) => {
+  const scene = useScene();
+  const motion = useMotion();
+  const { speed, windAngle, area, height, size } = CONFIG.environment.snow;
+  const { positions, randoms } = useMemo(() => createSnowLayout(createRng(seed, 'snow'), count, area, height), [seed, count, area, height]);
+  const material = useMemo(() => new SnowMaterial({ transparent: true, depthWrite: false }), []);
+  useEffect(() => () => material.dispose(), [material]);
+  const swirl = useMemo(() => createTween(0), []);
+  useSceneEvent(event => { if (event.type === 'enter') swirl.start(); });
+
+  useFrame((rootState, delta) => {
+    const { uniforms } = material;
+    const time = rootState.clock.elapsedTime;
+    const value = swirl.update(isTreeMode(scene.get().mode) ? 0 : motion, scene.progress());
+    // 风力可以随时调整：位移在这里累加，改变风力时雪花不会跳
+    const gust = wind * (1 + 0.4 * Math.sin(time * 0.3)) * delta;
+    const drift = uniforms.uDrift.value as THREE.Vector2;
+    drift.set((drift.x + Math.cos(windAngle) * gust) % area, (drift.y + Math.sin(windAngle) * gust) % area);
+    uniforms.uTime.value = time;
+    uniforms.uSwirl.value = value;
+    uniforms.uPhase.value += delta * value * 1.5;
+    uniforms.uSpeed.value = speed; uniforms.uArea.value = area; uniforms.uHeight.value = height; uniforms.uSize.value = size;
+  });
+
+  return (
+    <group position={[0, -CONFIG.tree.height / 2, 0]}>
+      <points key={count} material={material} frustumCulled={false}>
+        <bufferGeometry>
+          <bufferAttribute attach="attributes-position" args={[positions, 3]} />
+          <bufferAttribute attach="attributes-aRandom" args={[randoms, 1]} />
+        </bufferGeometry>
+      </points>
+    </group>
+  );
+};
+
+// 雪堆：旋转一条剖面线，树冠边缘 (滴水线) 附近最厚，再按方位角加一点起伏；半径和高度都是 1，使用时再缩放
+const createDriftGeometry = () => {
+  const profile = new Array(24).fill(0).map((_, i) => {
+    const r = 1 - i / 23;
+    return new THREE.Vector2(r, 0.35 * (1 - r * r) ** 2 + 0.65 * Math.exp(-(((r - 0.7) / 0.16) ** 2)));
+  });
+  const geometry = new THREE.LatheGeometry(profile, 64);
+  const position = geometry.attributes.position;
+  for (let i = 0; i < position.count; i++) {
+    const angle = Math.atan2(position.getZ(i), position.getX(i));
+    position.setY(i, position.getY(i) * (0.8 + 0.2 * Math.sin(angle * 5 + 1.3) * Math.cos(angle * 3)));
+  }
+  geometry.computeVertexNormals();
+  return geometry;
+};
+
+// --- Component: Snowy Ground (雪地；下雪时树下慢慢积起雪堆，散开时被吹散) ---
+const SnowyGround = ({ snowing }: { snowing: boolean }) => {
+  const driftRef = useRef<THREE.Mesh>(null);
+  const scene = useScene();
+  const drift = useRef(0);
+  const driftGeometry = useMemo(() => createDriftGeometry(), []);
+  useEffect(() => () => driftGeometry.dispose(), [driftGeometry]);
+
+  useFrame((_, delta) => {
+    if (!driftRef.current) return;
+    if (!isTreeMode(scene.get().mode)) drift.current = MathUtils.damp(drift.current, 0, 1.5, delta);
+    else if (snowing) drift.current = MathUtils.damp(drift.current, 1, 0.1, delta);
+    const radius = CONFIG.tree.radius * 1.4;
+    driftRef.current.scale.set(radius, Math.max(drift.current * 1.6, 1e-3), radius);
+    driftRef.current.visible = drift.current > 0.01;
+  });
+
+  return (
+    <group position={[0, -CONFIG.tree.height / 2 - 0.05, 0]}>
+      <mesh rotation={[-Math.PI / 2, 0, 0]}>
+        <circleGeometry args={[CONFIG.environment.ground.radius, 64]} />
+        <meshStandardMaterial color="#C8D2DE" emissive="#0B1220" roughness={1} />
+      </mesh>
+      <mesh ref={driftRef} geometry={driftGeometry} visible={false}>
+        <meshStandardMaterial color="#E8EEF6" emissive="#101820" roughness={0.9} />
+      </mesh>
+    </group>
+  );
+};
+
+// --- Component: Gift Pile (树下的礼物堆，散开时和其他装饰一起飞散) ---
+const Y_AXIS = new THREE.Vector3(0, 1, 0);
+
+const GiftPile = ({ count, seed, colors }: { count: number, seed: Seed, colors: TreeColors }) => {
+  const boxRef = useRef<THREE.InstancedMesh>(null);
+  const ribbonRef = useRef<THREE.InstancedMesh>(null);
+  const scene = useScene();
+  const motion = useMotion();
+  const scratch = useMemo(() => new THREE.Vector3(), []);
+  const rest = useMemo(() => new THREE.Vector3(), []);
+  const restQuaternion = useMemo(() => new THREE.Quaternion(), []);
+  const spin = useMemo(() => ({ quaternion: new THREE.Quaternion(), euler: new THREE.Euler() }), []);
+  const writer = useMemo(() => createInstanceWriter(), []);
+
+  // 与 ChristmasElements 的礼物盒相同的几何体，外加十字交叉的丝带
+  const [boxGeometry, ribbonGeometry] = useMemo(() => [
+    new THREE.BoxGeometry(GIFT_SIZE, GIFT_SIZE, GIFT_SIZE),
+    mergeGeometries([new THREE.BoxGeometry(GIFT_SIZE * 1.02, GIFT_SIZE * 1.02, GIFT_SIZE * 0.18), new THREE.BoxGeometry(GIFT_SIZE * 0.18, GIFT_SIZE * 1.02, GIFT_SIZE * 1.02)])
+  ], []);
+  const [boxMaterial, ribbonMaterial] = useMemo(() => [
+    createInstanceMaterial({ roughness: 0.4, metalness: 0.2, emissive: CONFIG.colors.white, emissiveIntensity: 0.15 }, { emissiveFromColor: true }),
+    createInstanceMaterial({ roughness: 0.2, metalness: 0.8, emissive: CONFIG.colors.white, emissiveIntensity: 0.3 }, { emissiveFromColor: true })
+  ], []);
+
+  const data = useMemo(() => createGiftPileLayout(createRng(seed, 'gifts'), count), [seed, count]);
+  useTransitionStart(data);
+
+  useLayoutEffect(() => {
+    const box = boxRef.current; const ribbon = ribbonRef.current; if (!box || !ribbon) return;
+    const color = new THREE.Color();
+    data.forEach((item, i) => {
+      box.setColorAt(i, color.set(paletteColor(colors.giftColors, item.colorRoll)));
+      ribbon.setColorAt(i, color.set(item.ribbonRoll > 0.5 ? colors.gold : colors.silver));
+    });
+    if (box.instanceColor) box.instanceColor.needsUpdate = true;
+    if (ribbon.instanceColor) ribbon.instanceColor.needsUpdate = true;
+  }, [data, colors]);
+
+  useFrame((_, delta) => {
+    const box = boxRef.current; const ribbon = ribbonRef.current; if (!box || !ribbon) return;
+    const { mode, spread } = scene.get(); const t = scene.progress();
+    const ground = -CONFIG.tree.height / 2;
+    const { dummy } = writer;
+    const step = delta * motion;
+    for (let i = 0; i < data.length; i++) {
+      const item = data[i];
+      // 树的尺寸可以随时调整，摆放位置每帧按当前的半径计算
+      const distance = item.distance * CONFIG.tree.radius;
+      rest.set(Math.cos(item.angle) * distance, ground + GIFT_SIZE / 2 * item.scale.y, Math.sin(item.angle) * distance);
+      placeItem(scratch, mode, t, item.startPos, item.chaosPos, rest, spread);
+      item.currentPos.lerp(scratch, Math.min(1, delta * FOLLOW_RATE));
+      // 聚合时放正落地，散开时在空中翻滚
+      if (isTreeMode(mode)) item.quaternion.slerp(restQuaternion.setFromAxisAngle(Y_AXIS, item.yaw), Math.min(1, delta * 4));
+      else item.quaternion.multiply(spin.quaternion.setFromEuler(spin.euler.set(step * item.rotationSpeed.x, step * item.rotationSpeed.y, step * item.rotationSpeed.z)));
+      dummy.position.copy(item.currentPos); dummy.quaternion.copy(item.quaternion); dummy.scale.copy(item.scale);
+      writer.write(box, i);
+      ribbon.setMatrixAt(i, dummy.matrix);
+    }
+    box.instanceMatrix.needsUpdate = true;
+    ribbon.instanceMatrix.needsUpdate = true;
+  });
+
+  return (
+    <group>
+      <instancedMesh key={`gift-${count}`} ref={boxRef} args={[boxGeometry, boxMaterial, count]} frustumCulled={false} />
+      <instancedMesh key={`ribbon-${count}`} ref={ribbonRef} args={[ribbonGeometry, ribbonMaterial, count]} frustumCulled={false} />
+    </group>
+  );
+};
+
+// --- Shader Material (Aurora) ---
+// 画在包围整个场景的球内侧：几条沿方位角起伏的光带，下边缘清晰、向上渐隐，带竖直的光柱纹理
+const AuroraMaterial = shaderMaterial(
+  { uTime: 0, uIntensity: 1, uColorLow: new THREE.Color('#2BFF88'), uColorHigh: new THREE.Color('#7A3CFF') },
+  `varying vec3 vDir;
+  void main() {
+    vDir = normalize(position);
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+  }`,
+  `uniform float uTime; uniform float uIntensity; uniform vec3 uColorLow; uniform vec3 uColorHigh; varying vec3 vDir;
+  void main() {
+    float angle = atan(vDir.z, vDir.x);
+    vec3 color = vec3(0.0);
+    for (int i = 0; i < 3; i++) {
+      float fi = float(i);
+      float base = 0.18 + fi * 0.07 + 0.05 * sin(angle * (2.0 + fi) + uTime * (0.15 + fi * 0.05) + fi * 2.0);
+      float h = vDir.y - base;
+      float curtain = smoothstep(0.0, 0.02, h) * exp(-h * (9.0 - fi * 2.0));
+      float rays = 0.55 + 0.45 * sin(angle * (60.0 + fi * 17.0) + sin(angle * 7.0 + uTime * 0.4) * 3.0);
+      color += mix(uColorLow, uColorHigh, clamp(h * 5.0, 0.0, 1.0)) * curtain * rays * (0.6 - fi * 0.15);
+    }
+    gl_FragColor = vec4(color * uIntensity, 1.0);
+  }`
+);
+
+// --- Component: Aurora Sky (聚合后变亮，散开时暗下去) ---
+const AuroraSky = () => {
+  const scene = useScene();
+  const material = useMemo(() => new AuroraMaterial({ side: THREE.BackSide, transparent: true, depthWrite: false, blending: THREE.AdditiveBlending }), []);
+  useEffect(() => () => material.dispose(), [material]);
+  const glow = useMemo(() => createTween(0.35), []);
+  useSceneEvent(event => { if (event.type === 'enter') glow.start(); });
+
+  useFrame(rootState => {
+    material.uniforms.uTime.value = rootState.clock.elapsedTime;
+    material.uniforms.uIntensity.value = glow.update(isTreeMode(scene.get().mode) ? 1 : 0.35, scene.progress());
+  });
+
+  return (
+    <mesh material={material}>
+      <sphereGeometry args={[180, 64, 32]} />
+    </mesh>
+  );
+};
+
+// --- Component: Fireplace Room (房间 + 壁炉；聚合时炉火烧旺，散开时只剩余烬) ---
+const ROOM_SIZE = [320, 160, 320] as const;
+// 火苗：x 位置 / 大小 / 相位
+const FLAMES = [[-6, 0.9, 0.9], [-3, 1.3, 1.3], [0, 1.6, 0.7], [3, 1.2, 1.1], [6, 0.9, 1.6]] as const;
+
+const FireplaceRoom = ({ floorY }: { floorY: number }) => {
+  const lightRef = useRef<THREE.PointLight>(null);
+  const flameRefs = useRef<(THREE.Group | null)[]>([]);
+  const scene = useScene();
+  const motion = useMotion();
+  const glow = useMemo(() => createTween(0.4), []);
+  useSceneEvent(event => { if (event.type === 'enter') glow.start(); });
+
+  useFrame(rootState => {
+    const level = glow.update(isTreeMode(scene.get().mode) ? 1 : 0.4, scene.progress());
+    const time = rootState.clock.elapsedTime;
+    // 几个不同频率的正弦叠加成火光的闪烁
+    const flicker = 0.85 + (Math.sin(time * 7.3) * 0.07 + Math.sin(time * 13.1 + 1.3) * 0.05 + Math.sin(time * 23.7) * 0.03) * motion;
+    if (lightRef.current) lightRef.current.intensity = 6000 * level * flicker;
+    flameRefs.current.forEach((flame, i) => flame?.scale.set(1, Math.max(level * (0.8 + 0.3 * motion * Math.sin(time * (5 + i) + FLAMES[i][2] * 10)), 1e-3), 1));
+  });
+
+  const [width, height, depth] = ROOM_SIZE;
+  return (
+    <group position={[0, floorY, 0]}>
+      <mesh position={[0, height / 2, 0]}>
+        <boxGeometry args={[width, height, depth]} />
+        <meshStandardMaterial color="#4A2A1C" emissive="#1A0C06" roughness={0.9} side={THREE.BackSide} />
+      </mesh>
+      {/* 砖砌的炉身 + 炉口 + 木质壁炉台 */}
+      <group position={[0, 0, -depth / 2 + 6]}>
+        <mesh position={[0, 20, 0]}>
+          <boxGeometry args={[64, 40, 12]} />
+          <meshStandardMaterial color="#6B2E22" roughness={1} />
+        </mesh>
+        <mesh position={[0, 12, 6.05]}>
+          <planeGeometry args={[32, 24]} />
+          <meshBasicMaterial color="#050202" />
+        </mesh>
+        <mesh position={[0, 41.5, 1]}>
+          <boxGeometry args={[74, 3, 16]} />
+          <meshStandardMaterial color="#2B1A10" roughness={0.6} />
+        </mesh>
+        {FLAMES.map(([x, size], i) => (
+          <group key={i} ref={group => { flameRefs.current[i] = group; }} position={[x, 0.5, 6.3]}>
+            <mesh position={[0, 5 * size, 0]}>
+              <coneGeometry args={[2.2 * size, 10 * size, 12]} />
+              <meshBasicMaterial color={i % 2 ? '#FF7A1A' : '#FFB347'} transparent opacity={0.85} toneMapped={false} />
+            </mesh>
+          </group>
+        ))}
+        <pointLight ref={lightRef} position={[0, 12, 20]} color="#FF8A3D" />
+      </group>
+    </group>
+  );
+};
+
+// --- Component: Backdrop (夜空 / 壁炉房间 / 极光) ---
+const BACKGROUNDS: Record<BackdropType, string> = { night: '#000300', fireplace: '#0D0604', aurora: '#000812' };
+
+const Backdrop = ({ type, stars }: { type: BackdropType, stars: number }) => {
+  const skyRef = useRef<THREE.Group>(null);
+  const scene = useScene();
+  const motion = useMotion();
+  // 散开时星空转得快一些
+  useFrame((_, delta) => {
+    if (skyRef.current) skyRef.current.rotation.y += delta * motion * (isTreeMode(scene.get().mode) ? 0.005 : 0.03);
+  });
+
+  return (
+    <>
+      <color attach="background" args={[BACKGROUNDS[type]]} />
+      {type === 'fireplace'
+        ? <FireplaceRoom floorY={TREE_OFFSET_Y - CONFIG.tree.height / 2 - 0.1} />
+        : (
+          <group ref={skyRef}>
+            <Stars radius={100} depth={50} count={stars} factor={4} saturation={0} fade speed={motion} />
+            {type === 'aurora' && <AuroraSky />}
+          </group>
+        )}
+    </>
+  );
+};
+
+// --- Component: Celebration (倒计时归零时从树中心炸开的彩色闪光，每种彩灯颜色一团) ---
+const CELEBRATION_SCALE: [number, number, number] = [40, 46, 40];
+const BURST_TIME = 1.5;
+
+const Celebration = ({ count, colors }: { count: number, colors: string[] }) => {
+  const motion = useMotion();
+  const groupRef = useRef<THREE.Group>(null);
+  const startRef = useRef<number | null>(null);
+  useFrame(stateObj => {
+    const group = groupRef.current; if (!group) return;
+    startRef.current ??= stateObj.clock.elapsedTime;
+    // 减少动态效果时不做炸开的动画，直接铺满
+    const t = motion < 1 ? 1 : Math.min(1, (stateObj.clock.elapsedTime - startRef.current) / BURST_TIME);
+    group.scale.setScalar(0.1 + 0.9 * EASINGS.easeOutExpo(t));
+  });
+  return (
+    <group ref={groupRef}>
+      {colors.map((color, i) => <Sparkles key={i} count={count} scale={CELEBRATION_SCALE} size={14} speed={2 * motion} noise={3} opacity={1} color={color} />)}
+    </group>
+  );
+};
+
 // --- Main Scene Experience ---
-const Experience = ({ sceneState, rotationSpeed }: { sceneState: 'CHAOS' | 'FORMED', rotationSpeed: number }) => {
+type ExperienceProps = {
+  cameraInput: MutableRefObject<CameraInput>,
+  /** 键盘 / 触摸产生的一次性镜头位移 (见 takeNudge) */
+  cameraNudge: MutableRefObject<CameraInput>,
+  handPresent: boolean,
+  lightsOn: boolean,
+  lightPattern: LightPattern,
+  /** 正在播放音乐时的音量 / 鼓点，否则为 null */
+  audioLevels: AudioLevels | null,
+  photos: PhotoEntry[],
+  focused: number | null,
+  onFocus: (index: number | null) => void,
+  pickSignal: number,
+  layoutRef: MutableRefObject<OrnamentStop[]>,
+  tourStop: number | null,
+  seed: Seed,
+  shape: TreeShape,
+  quality: QualityPreset,
+  topper: TopperSettings,
+  heroPhoto: PhotoEntry | null,
+  /** 正在录像：关闭自动旋转和手势，镜头按固定速度环绕 */
+  recording: boolean,
+  colors: TreeColors,
+  effects: TreeEffects,
+  environment: EnvironmentSettings,
+  /** 倒计时归零后的庆祝 (见 CONFIG.schedule.celebration) */
+  celebrating: boolean
+};
+
+const TREE_OFFSET_Y = -6;
+const TOUR_VIEW_DISTANCE = 9;
+
+const Experience = ({ cameraInput, cameraNudge, handPresent, lightsOn, lightPattern, audioLevels, photos, focused, onFocus, pickSignal, layoutRef, tourStop, seed, shape, quality, topper, heroPhoto, recording, colors, effects, environment, celebrating }: ExperienceProps) => {
   const controlsRef = useRef<any>(null);
-  useFrame(() => {
-    if (controlsRef.current) {
-      controlsRef.current.setAzimuthalAngle(controlsRef.current.getAzimuthalAngle() + rotationSpeed);
-      controlsRef.current.update();
+  const isFocused = focused !== null;
+  const isTouring = tourStop !== null;
+  const camera = useThree(s => s.camera);
+  const { mode } = useSceneTransition(useScene());
+  const tourPath = useRef<{ curve: THREE.CatmullRomCurve3, fromLook: THREE.Vector3, startTime: number } | null>(null);
+  const tourLook = useMemo(() => new THREE.Vector3(), []);
+  const stopWorldPos = useMemo(() => new THREE.Vector3(), []);
+  const nudgeStep = useMemo<CameraInput>(() => ({ azimuth: 0, polar: 0, zoom: 0 }), []);
+  const motion = useMotion();
+
+  // 每到新的一站，生成一条绕树外侧的样条路径：当前机位 -> 外侧弧线中点 -> 照片正前方
+  useEffect(() => {
+    const stop = tourStop !== null ? layoutRef.current[tourStop] : undefined;
+    if (!stop) { tourPath.current = null; return; }
+    const target = stop.targetPos.clone().setY(stop.targetPos.y + TREE_OFFSET_Y);
+    const outward = new THREE.Vector3(target.x, 0, target.z);
+    if (outward.lengthSq() < 1e-6) outward.set(0, 0, 1);
+    outward.normalize();
+    const end = target.clone().addScaledVector(outward, TOUR_VIEW_DISTANCE).setY(target.y + 1.5);
+
+    const start = camera.position.clone();
+    const startAngle = Math.atan2(start.z, start.x); const endAngle = Math.atan2(end.z, end.x);
+    let sweep = endAngle - startAngle;
+    if (sweep > Math.PI) sweep -= Math.PI * 2; if (sweep < -Math.PI) sweep += Math.PI * 2;
+    const midAngle = startAngle + sweep / 2;
+    const midRadius = Math.max(Math.hypot(start.x, start.z), Math.hypot(end.x, end.z)) + 6;
+    const mid = new THREE.Vector3(Math.cos(midAngle) * midRadius, (start.y + end.y) / 2 + 3, Math.sin(midAngle) * midRadius);
+
+    const fromLook = tourPath.current ? tourLook.clone() : (controlsRef.current?.target.clone() ?? new THREE.Vector3());
+    tourPath.current = { curve: new THREE.CatmullRomCurve3([start, mid, end]), fromLook, startTime: performance.now() };
+  }, [tourStop, camera, layoutRef, tourLook]);
+
+  useFrame((_, delta) => {
+    // 录像 / 幻灯片期间的按键不会攒到之后再生效
+    const step = takeNudge(cameraNudge.current, delta, nudgeStep);
+    if (recording) {
+      const controls = controlsRef.current;
+      if (controls) { controls.setAzimuthalAngle(controls.getAzimuthalAngle() + delta * CONFIG.capture.video.turntable); controls.update(); }
+      return;
+    }
+    if (isTouring) {
+      const path = tourPath.current; const stop = tourStop !== null ? layoutRef.current[tourStop] : undefined;
+      if (!path || !stop) return;
+      const t = easeInOutCubic(Math.min(1, (performance.now() - path.startTime) / (CONFIG.tour.travel * 1000)));
+      path.curve.getPoint(t, camera.position);
+      stopWorldPos.copy(stop.currentPos).setY(stop.currentPos.y + TREE_OFFSET_Y);
+      tourLook.lerpVectors(path.fromLook, stopWorldPos, t);
+      camera.lookAt(tourLook);
+      return;
+    }
+    // 聚焦照片时暂停手势 / 键盘控制的旋转
+    const controls = controlsRef.current; const input = cameraInput.current;
+    if (controls && !isFocused) {
+      const azimuth = input.azimuth + step.azimuth; const polar = input.polar + step.polar; const zoom = input.zoom + step.zoom;
+      if (azimuth) controls.setAzimuthalAngle(controls.getAzimuthalAngle() + azimuth);
+      if (polar) controls.setPolarAngle(controls.getPolarAngle() + polar);
+      if (zoom) controls.dollyIn(Math.exp(-zoom));
+      controls.update();
     }
   });
 
   return (
     <>
       <PerspectiveCamera makeDefault position={[0, 8, 60]} fov={45} />
-      <OrbitControls ref={controlsRef} enablePan={false} enableZoom={true} minDistance={30} maxDistance={120} autoRotate={rotationSpeed === 0 && sceneState === 'FORMED'} autoRotateSpeed={0.3} maxPolarAngle={Math.PI / 1.7} />
+      <OrbitControls ref={controlsRef} enabled={!isTouring} enablePan={false} enableZoom={true} minDistance={30} maxDistance={120} autoRotate={!handPresent && (mode === 'FORMED' || mode === 'SNOWGLOBE') && !isFocused && !isTouring && !recording} autoRotateSpeed={0.3 * motion} maxPolarAngle={Math.PI / 1.7} />
 
-      <color attach="background" args={['#000300']} />
-      <Stars radius={100} depth={50} count={5000} factor={4} saturation={0} fade speed={1} />
-      <Environment preset="night" background={false} />
+      <Backdrop type={environment.backdrop} stars={quality.stars} />
+      {quality.environment && <Environment preset="night" background={false} />}
 
       <ambientLight intensity={0.4} color="#003311" />
       <pointLight position={[30, 30, 30]} intensity={100} color={CONFIG.colors.warmLight} />
       <pointLight position={[-30, 10, -30]} intensity={50} color={CONFIG.colors.gold} />
       <pointLight position={[0, -20, 10]} intensity={30} color="#ffffff" />
 
-      <group position={[0, -6, 0]}>
-        <Foliage state={sceneState} />
+      <group position={[0, TREE_OFFSET_Y, 0]}>
+        <Foliage count={quality.counts.foliage} seed={seed} shape={shape} color={colors.emerald} />
         <Suspense fallback={null}>
-           <PhotoOrnaments state={sceneState} />
-           <ChristmasElements state={sceneState} />
-           <FairyLights state={sceneState} />
-           <TopStar state={sceneState} />
+           <PhotoOrnaments count={quality.counts.ornaments} photos={photos} focused={focused} onFocus={onFocus} pickSignal={pickSignal} layoutRef={layoutRef} seed={seed} shape={shape} borderColors={colors.borders} />
+           <ChristmasElements count={quality.counts.elements} seed={seed} shape={shape} colors={colors} />
+           <FairyLights count={quality.counts.lights} seed={seed} shape={shape} lit={lightsOn} pattern={lightPattern} audio={audioLevels} colors={colors} />
+           <Topper type={topper.type} svg={topper.svg} hero={heroPhoto} colors={colors} />
         </Suspense>
-        <Sparkles count={600} scale={50} size={8} speed={0.4} opacity={0.4} color={CONFIG.colors.silver} />
+        {environment.ground && <SnowyGround snowing={environment.snow} />}
+        {environment.gifts && <GiftPile count={CONFIG.environment.gifts.count} seed={seed} colors={colors} />}
+        {environment.snow && <Snowfall count={quality.snow} seed={seed} wind={environment.wind} />}
+        <SnowGlobe />
+        <Sparkles count={quality.sparkles} scale={50} size={8} speed={0.4 * motion} opacity={0.4} color={CONFIG.colors.silver} />
+        {celebrating && <Celebration count={quality.sparkles} colors={[colors.gold, ...colors.lights]} />}
       </group>
 
-      <EffectComposer>
-        <Bloom luminanceThreshold={0.8} luminanceSmoothing={0.1} intensity={1.5} radius={0.5} mipmapBlur />
-        <Vignette eskil={false} offset={0.1} darkness={1.2} />
-      </EffectComposer>
+      <FocusDimmer active={isFocused} />
+
+      {quality.postprocessing === 'full' && (
+        <EffectComposer>
+          <Bloom luminanceThreshold={effects.bloomThreshold} luminanceSmoothing={0.1} intensity={effects.bloomIntensity} radius={0.5} mipmapBlur />
+          <Vignette eskil={false} offset={0.1} darkness={effects.vignetteDarkness} />
+        </EffectComposer>
+      )}
+      {quality.postprocessing === 'bloom' && (
+        <EffectComposer multisampling={0}>
+          <Bloom luminanceThreshold={effects.bloomThreshold} luminanceSmoothing={0.1} intensity={effects.bloomIntensity} radius={0.5} mipmapBlur />
+        </EffectComposer>
+      )}
     </>
   );
 };
 
+// --- FPS Meter (调试面板用，每半秒汇报一次) ---
+const FpsMeter = ({ onFps }: { onFps: (fps: number) => void }) => {
+  const sample = useRef({ frames: 0, elapsed: 0 });
+  useFrame((_, delta) => {
+    const current = sample.current;
+    current.frames++; current.elapsed += delta;
+    if (current.elapsed < 0.5) return;
+    onFps(Math.round(current.frames / current.elapsed));
+    current.frames = 0; current.elapsed = 0;
+  });
+  return null;
+};
+
+// --- Component: Capture Bridge (在 Canvas 内执行截图 / 录像，通过 captureRef 交给外面的按钮调用) ---
+const CaptureBridge = ({ captureRef, clock }: { captureRef: MutableRefObject<CaptureApi | null>, clock: SceneClock }) => {
+  const get = useThree(s => s.get);
+  const scene = useScene();
+
+  useEffect(() => {
+    // 停掉自动渲染，把画布内部尺寸改成目标分辨率 (页面上的显示尺寸不变)，之后每一帧都由我们推进
+    const takeOver = async (width: number, height: number) => {
+      const state = get();
+      const restore = { width: state.size.width, height: state.size.height, dpr: state.viewport.dpr };
+      let time = state.clock.elapsedTime;
+      state.setFrameloop('never'); state.clock.elapsedTime = time;
+      clock.hold();
+      state.setDpr(1); state.setSize(width, height, false);
+      await nextFrames(2);
+      return {
+        step: (seconds: number) => { time += seconds; clock.advance(seconds * 1000); get().advance(time); },
+        release: () => {
+          const current = get();
+          current.setDpr(restore.dpr); current.setSize(restore.width, restore.height);
+          current.setFrameloop('always'); current.clock.elapsedTime = time;
+          clock.release();
+        }
+      };
+    };
+
+    captureRef.current = {
+      snapshot: async (width, height) => {
+        const control = await takeOver(width, height);
+        try {
+          // WebGL 画布只在渲染后的同一个任务里可读，渲染完立刻复制
+          control.step(1 / 60);
+          const copy = document.createElement('canvas');
+          copy.width = width; copy.height = height;
+          copy.getContext('2d')!.drawImage(get().gl.domElement, 0, 0, width, height);
+          return copy;
+        } finally { control.release(); }
+      },
+      record: async ({ width, height, fps, hold, onProgress }) => {
+        const type = pickVideoType();
+        if (!type) throw new Error('WebM recording is not supported in this browser');
+        const control = await takeOver(width, height);
+        let stream: MediaStream | undefined;
+        let recorder: MediaRecorder | undefined;
+        try {
+          // 先散开并等粒子到位 (不录制)
+          scene.transition('CHAOS');
+          const preroll = Math.ceil((CONFIG.scene.modes.CHAOS.duration + 1) * fps);
+          for (let i = 0; i < preroll; i++) { control.step(1 / fps); if (i % 10 === 0) await nextFrames(1); }
+
+          stream = get().gl.domElement.captureStream(0);
+          const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+          const mediaRecorder = recorder = new MediaRecorder(stream, { mimeType: type, videoBitsPerSecond: CONFIG.capture.video.bitrate });
+          const chunks: Blob[] = [];
+          mediaRecorder.ondataavailable = e => { if (e.data.size > 0) chunks.push(e.data); };
+          const stopped = new Promise<void>(resolve => { mediaRecorder.onstop = () => resolve(); });
+          mediaRecorder.start();
+
+          // 每帧推进固定的 1/fps 秒，再按真实时间等到下一帧，即使渲染一帧要更久，动画也是匀速的
+          scene.transition('FORMED');
+          const total = Math.ceil((CONFIG.scene.modes.FORMED.duration + hold) * fps);
+          for (let i = 0; i < total; i++) {
+            const started = performance.now();
+            control.step(1 / fps);
+            track.requestFrame();
+            onProgress?.((i + 1) / total);
+            await new Promise(resolve => setTimeout(resolve, Math.max(0, 1000 / fps - (performance.now() - started))));
+          }
+          mediaRecorder.stop();
+          await stopped;
+          return new Blob(chunks, { type: 'video/webm' });
+        } finally {
+          // 中途出错时也要停掉录制和画布的采集流
+          if (recorder && recorder.state !== 'inactive') recorder.stop();
+          stream?.getTracks().forEach(t => t.stop());
+          control.release();
+        }
+      }
+    };
+    return () => { captureRef.current = null; };
+  }, [get, scene, clock, captureRef]);
+
+  return null;
+};
+
 // --- Gesture Controller ---
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-const GestureController = ({ onGesture, onMove, onStatus, debugMode }: any) => {
+type GestureControllerProps = {
+  onAction: (action: GestureAction) => void,
+  /** 两只手张开后分开，spread 为爆炸范围的倍数 */
+  onExplode: (spread: number) => void,
+  onPinch: () => void,
+  onHand: (present: boolean) => void,
+  onStatus: (status: string) => void,
+  cameraInput: MutableRefObject<CameraInput>,
+  debugMode: boolean
+};
+
+// 调试画面中每只手的颜色和两只手时的分工
+const HAND_COLORS = ['#FFD700', '#4FC3F7'];
+const ROLE_LABELS: Record<HandRole, string> = { rotate: 'ROTATE', zoom: 'ZOOM', explode: 'SPREAD → EXPLODE', assemble: 'TOGETHER → ASSEMBLE' };
+
+// 本站没有模型文件 (开发时没有运行 npm run fetch-model) 时 dev server 会返回 404 或 index.html
+const hasModelFile = async (url: string) => {
+  try {
+    const response = await fetch(url, { method: 'HEAD' });
+    return response.ok && !response.headers.get('content-type')?.includes('text/html');
+  } catch {
+    return false;
+  }
+};
+
+// 画布整体被 CSS 镜像 (scaleX(-1))，文字要反过来画才是正的
+const drawHandLabel = (ctx: CanvasRenderingContext2D, text: string, wrist: { x: number, y: number }, color: string) => {
+  const x = wrist.x * ctx.canvas.width; const y = wrist.y * ctx.canvas.height + 30;
+  ctx.save();
+  ctx.scale(-1, 1);
+  ctx.font = 'bold 18px sans-serif'; ctx.textAlign = 'center';
+  ctx.lineWidth = 4; ctx.strokeStyle = 'rgba(0,0,0,0.7)'; ctx.strokeText(text, -x, y);
+  ctx.fillStyle = color; ctx.fillText(text, -x, y);
+  ctx.restore();
+};
+
+const GestureController = ({ onAction, onExplode, onPinch, onHand, onStatus, cameraInput, debugMode }: GestureControllerProps) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const sound = useSound();
+  // 切换调试面板不需要重新加载模型和摄像头
+  const debugRef = useRef(debugMode);
+  debugRef.current = debugMode;
 
   useEffect(() => {
-    let gestureRecognizer: GestureRecognizer;
+    let gestureRecognizer: GestureRecognizer | undefined;
+    let stream: MediaStream | undefined;
+    let cancelled = false;
     let requestRef: number;
+    const output = cameraInput.current;
+    let pinching = false;
+    // 每个位置 (按手腕在画面中从左到右排序) 一个平滑器，两只手的识别顺序互换时不会串
+    const smoothers = [createGestureSmoother(CONFIG.gestures.smoothing), createGestureSmoother(CONFIG.gestures.smoothing)];
+    const interpretTwoHands = createTwoHandInterpreter(CONFIG.gestures.twoHands);
+    const smoothX = createAxisSmoother(0.3, 0.07); const smoothY = createAxisSmoother(0.3, 0.1); const smoothPinch = createAxisSmoother(0.3, 0);
+    const smoothZoom = createAxisSmoother(0.3, 0.08);
+    let activeGesture: GestureName = 'None';
+    let lastPinch: number | null = null;
 
     const setup = async () => {
       onStatus("DOWNLOADING AI...");
       try {
-        const vision = await FilesetResolver.forVisionTasks("https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.3/wasm");
-        gestureRecognizer = await GestureRecognizer.createFromOptions(vision, {
-          baseOptions: {
-            modelAssetPath: "https://storage.googleapis.com/mediapipe-models/gesture_recognizer/gesture_recognizer/float16/1/gesture_recognizer.task",
-            delegate: "GPU"
-          },
+        const { assetBase, modelFallback, delegate } = CONFIG.gestures;
+        const vision = await FilesetResolver.forVisionTasks(`${assetBase}/wasm`);
+        let modelPath = `${assetBase}/gesture_recognizer.task`;
+        if (!(await hasModelFile(modelPath))) {
+          if (!modelFallback) throw new Error('MODEL MISSING, RUN npm run fetch-model');
+          console.warn(`[gestures] ${modelPath} not found, loading the model from ${modelFallback}. Run \`npm run fetch-model\` to use it offline.`);
+          onStatus("LOCAL MODEL MISSING, LOADING FROM CDN...");
+          modelPath = modelFallback;
+        }
+        if (cancelled) return;
+        const create = (device: 'GPU' | 'CPU') => GestureRecognizer.createFromOptions(vision, {
+          baseOptions: { modelAssetPath: modelPath, delegate: device },
           runningMode: "VIDEO",
-          numHands: 1
+          numHands: CONFIG.gestures.numHands
         });
+        // GPU delegate 需要 WebGL2，没有的话直接用 CPU
+        const preferred = delegate === 'GPU' && document.createElement('canvas').getContext('webgl2') ? 'GPU' : 'CPU';
+        try {
+          gestureRecognizer = await create(preferred);
+        } catch (err) {
+          if (preferred === 'CPU') throw err;
+          console.warn('[gestures] GPU delegate failed, falling back to CPU', err);
+          onStatus("GPU UNAVAILABLE, USING CPU...");
+          gestureRecognizer = await create('CPU');
+        }
+        // 模型还在加载时就关闭了摄像头 (或 StrictMode 的第一次挂载)：cleanup 已经执行过，这里自己释放
+        if (cancelled) { gestureRecognizer.close(); return; }
         onStatus("REQUESTING CAMERA...");
         if (navigator.mediaDevices && navigator.mediaDevices.getUserMedia) {
-          const stream = await navigator.mediaDevices.getUserMedia({ video: true });
+          stream = await navigator.mediaDevices.getUserMedia({ video: true });
+          if (cancelled) { stream.getTracks().forEach(track => track.stop()); return; }
           if (videoRef.current) {
             videoRef.current.srcObject = stream;
             videoRef.current.play();
@@ -457,43 +1257,106 @@ const GestureController = ({ onGesture, onMove, onStatus, debugMode }: any) => {
             onStatus("ERROR: CAMERA PERMISSION DENIED");
         }
       } catch (err: any) {
-        onStatus(`ERROR: ${err.message || 'MODEL FAILED'}`);
+        if (!cancelled) onStatus(`ERROR: ${err.message || 'MODEL FAILED'}`);
       }
     };
 
     const predictWebcam = () => {
+      const debugMode = debugRef.current;
       if (gestureRecognizer && videoRef.current && canvasRef.current) {
         if (videoRef.current.videoWidth > 0) {
             const results = gestureRecognizer.recognizeForVideo(videoRef.current, Date.now());
+            const hands = results.landmarks.map((landmarks, i) => ({
+              landmarks, category: results.gestures[i]?.[0], handedness: results.handedness[i]?.[0]?.categoryName ?? '?'
+            })).sort((a, b) => a.landmarks[0].x - b.landmarks[0].x).slice(0, smoothers.length);
+            const stable = smoothers.map((smooth, i) => {
+              const category = hands[i]?.category;
+              return category ? smooth(category.categoryName as GestureName, category.score) : smooth('None', 0);
+            });
+            // 调试画面中每只手下面显示的 左 / 右手、手势和对应的动作
+            const labels: string[] = [];
+
+            const input = cameraInput.current;
+            if (hands.length === 1) {
+              const { landmarks, handedness } = hands[0];
+              if (stable[0] !== activeGesture) {
+                activeGesture = stable[0];
+                const action = CONFIG.gestures.actions[activeGesture];
+                if (action !== 'none') sound.effect('tick');
+                if (!CONTINUOUS_ACTIONS.includes(action)) onAction(action);
+                if (debugMode) onStatus(`DETECTED: ${activeGesture} → ${action.toUpperCase()}`);
+              }
+              const held = CONFIG.gestures.actions[activeGesture];
+              labels.push(`${handedness} · ${activeGesture} → ${held.toUpperCase()}`);
+
+              // 手左右移动控制方位角，上下移动控制俯仰角 (手往上 -> 视角抬高)
+              const wrist = landmarks[0];
+              input.azimuth = smoothX.update(0.5 - wrist.x) * 0.17;
+              input.polar = smoothY.update(wrist.y - 0.5) * 0.06;
+
+              // 拇指尖 (4) 与食指尖 (8) 的距离：张开时控制缩放，捏合 (带回差) 时聚焦照片
+              const thumb = landmarks[4]; const index = landmarks[8];
+              const pinchDistance = smoothPinch.update(Math.hypot(thumb.x - index.x, thumb.y - index.y));
+              if (!pinching && pinchDistance < 0.04 && activeGesture !== "Closed_Fist") { pinching = true; onPinch(); }
+              else if (pinching && pinchDistance > 0.08) pinching = false;
+              const pinchZoom = CONFIG.gestures.pinchZoom && !pinching && pinchDistance > 0.08 && lastPinch !== null ? (pinchDistance - lastPinch) * 4 : 0;
+              lastPinch = pinchDistance > 0.08 ? pinchDistance : null;
+              input.zoom = pinchZoom + (held === 'zoomIn' ? 0.01 : held === 'zoomOut' ? -0.01 : 0);
+              smoothZoom.reset();
+              onHand(true);
+            } else if (hands.length === 2) {
+              const frame = (i: number): HandFrame => ({ gesture: stable[i], x: hands[i].landmarks[0].x, y: hands[i].landmarks[0].y });
+              const { action, roles, rotate, zoom } = interpretTwoHands([frame(0), frame(1)]);
+              if (action) {
+                sound.effect('tick');
+                if (action.type === 'explode') onExplode(action.spread); else onAction('assemble');
+                if (debugMode) onStatus(`DETECTED: TWO HANDS → ${action.type.toUpperCase()}`);
+              }
+              hands.forEach((hand, i) => labels.push(`${hand.handedness} · ${stable[i]} → ${ROLE_LABELS[roles[i]]}`));
+              // 单手的手势在两只手时不触发；记下当前的手势，收回一只手时不会误触发
+              activeGesture = stable[0];
+
+              // 一只手像单手时一样控制旋转，另一只手上下移动控制缩放 (往上拉近)
+              if (rotate) { input.azimuth = smoothX.update(0.5 - rotate.x) * 0.17; input.polar = smoothY.update(rotate.y - 0.5) * 0.06; }
+              else { input.azimuth = 0; input.polar = 0; smoothX.reset(); smoothY.reset(); }
+              if (zoom) input.zoom = smoothZoom.update(0.5 - zoom.y) * 0.05;
+              else { input.zoom = 0; smoothZoom.reset(); }
+              pinching = false; smoothPinch.reset(); lastPinch = null;
+              onHand(true);
+            } else {
+              input.azimuth = 0; input.polar = 0; input.zoom = 0;
+              smoothX.reset(); smoothY.reset(); smoothPinch.reset(); smoothZoom.reset(); lastPinch = null;
+              activeGesture = stable[0];
+              onHand(false);
+              if (debugMode) onStatus("AI READY: NO HAND");
+            }
+
             const ctx = canvasRef.current.getContext("2d");
             if (ctx && debugMode) {
                 ctx.clearRect(0, 0, canvasRef.current.width, canvasRef.current.height);
                 canvasRef.current.width = videoRef.current.videoWidth; canvasRef.current.height = videoRef.current.videoHeight;
-                if (results.landmarks) for (const landmarks of results.landmarks) {
-                        const drawingUtils = new DrawingUtils(ctx);
-                        drawingUtils.drawConnectors(landmarks, GestureRecognizer.HAND_CONNECTIONS, { color: "#FFD700", lineWidth: 2 });
-                        drawingUtils.drawLandmarks(landmarks, { color: "#FF0000", lineWidth: 1 });
-                }
+                const drawingUtils = new DrawingUtils(ctx);
+                hands.forEach(({ landmarks }, i) => {
+                  drawingUtils.drawConnectors(landmarks, GestureRecognizer.HAND_CONNECTIONS, { color: HAND_COLORS[i], lineWidth: 2 });
+                  drawingUtils.drawLandmarks(landmarks, { color: "#FF0000", lineWidth: 1 });
+                  drawHandLabel(ctx, labels[i], landmarks[0], HAND_COLORS[i]);
+                });
             } else if (ctx && !debugMode) ctx.clearRect(0, 0, canvasRef.current.width, canvasRef.current.height);
-
-            if (results.gestures.length > 0) {
-              const name = results.gestures[0][0].categoryName; const score = results.gestures[0][0].score;
-              if (score > 0.4) {
-                 if (name === "Open_Palm") onGesture("CHAOS"); if (name === "Closed_Fist") onGesture("FORMED");
-                 if (debugMode) onStatus(`DETECTED: ${name}`);
-              }
-              if (results.landmarks.length > 0) {
-                const speed = (0.5 - results.landmarks[0][0].x) * 0.15;
-                onMove(Math.abs(speed) > 0.01 ? speed : 0);
-              }
-            } else { onMove(0); if (debugMode) onStatus("AI READY: NO HAND"); }
         }
         requestRef = requestAnimationFrame(predictWebcam);
       }
     };
     setup();
-    return () => cancelAnimationFrame(requestRef);
-  }, [onGesture, onMove, onStatus, debugMode]);
+    // 关闭摄像头：停止识别并释放摄像头 (浏览器的摄像头指示灯随之熄灭)
+    return () => {
+      cancelled = true;
+      cancelAnimationFrame(requestRef);
+      stream?.getTracks().forEach(track => track.stop());
+      gestureRecognizer?.close();
+      output.azimuth = 0; output.polar = 0; output.zoom = 0;
+      onHand(false);
+    };
+  }, [onAction, onExplode, onPinch, onHand, onStatus, cameraInput, sound]);
 
   return (
     <>
@@ -504,47 +1367,484 @@ const GestureController = ({ onGesture, onMove, onStatus, debugMode }: any) => {
 };
 
 // --- App Entry ---
+// 屏幕阅读器播报的场景状态
+const MODE_ANNOUNCEMENTS: Record<SceneMode, string> = {
+  CHAOS: 'Tree dispersed', FORMED: 'Tree assembled', EXPLODING: 'Tree bursting apart',
+  SPIRAL_ASSEMBLE: 'Tree assembling', GALLERY: 'Photo wall', SNOWGLOBE: 'Snow globe'
+};
+const GESTURES_OFF = 'GESTURES OFF · PRESS C OR 🖐 CAMERA';
+
+// 减少动态效果的屏幕收到其他屏幕的盘旋聚合 / 爆炸时直接聚合 / 散开
+const CALM_MODES: Partial<Record<SceneMode, SceneMode>> = { SPIRAL_ASSEMBLE: 'FORMED', EXPLODING: 'CHAOS' };
+
+// 照片说明 + 日期，没有说明时读文件名
+const describePhoto = (photo: PhotoEntry) => [photo.caption || photoName(photo.src), photo.date].filter(Boolean).join(', ');
+
 export default function GrandTreeApp() {
-  const [sceneState, setSceneState] = useState<'CHAOS' | 'FORMED'>('CHAOS');
-  const [rotationSpeed, setRotationSpeed] = useState(0);
-  const [aiStatus, setAiStatus] = useState("INITIALIZING...");
+  const sceneClock = useMemo(() => createSceneClock(), []);
+  const scene = useMemo(() => createSceneMachine({ ...CONFIG.scene, now: sceneClock.now }), [sceneClock]);
+  const { mode: sceneMode, spread: sceneSpread } = useSceneTransition(scene);
+  // 遥控 / 多屏同步 (CONFIG.remote)：用户的操作发到中继上，其余屏幕照着执行；
+  // 爆炸后散开、幻灯片的定时散开和自动翻页由每个屏幕各自执行，不经过频道
+  const relayUrl = useMemo(resolveRelayUrl, []);
+  const remote = useRemoteChannel(relayUrl, message => applyRemote(message));
+  const { send: remoteSend } = remote;
+  const transition = useCallback((mode: SceneMode, spread = 1) => {
+    scene.transition(mode, spread);
+    remoteSend({ type: 'state', patch: { mode, spread } });
+  }, [scene, remoteSend]);
+  // 照片墙 / 水晶球：再按一次回到圣诞树
+  const toggleMode = useCallback((mode: SceneMode) => transition(scene.get().mode === mode ? 'FORMED' : mode), [scene, transition]);
+  const cameraInput = useRef<CameraInput>({ azimuth: 0, polar: 0, zoom: 0 });
+  const cameraNudge = useRef<CameraInput>({ azimuth: 0, polar: 0, zoom: 0 });
+  // 摄像头默认不开启：点击 🖐 CAMERA 或按 C 之后才请求权限、加载手势模型
+  const [cameraOn, setCameraOn] = useState(CONFIG.controls.camera);
+  const reducedMotion = useReducedMotion();
+  const { message: announcement, announce } = useAnnouncer();
+  const [handPresent, setHandPresent] = useState(false);
+  const [lightsOn, setLightsOn] = useState(true);
+  const [lightPattern, setLightPattern] = useState<LightPattern>(CONFIG.lightShow.pattern);
+  // 倒计时 / 庆祝期间日程改灯之前的灯效和开关状态，窗口结束后恢复；用户自己改了灯就不再恢复
+  const lightsBeforeCountdown = useRef<{ pattern: LightPattern, on: boolean } | null>(null);
+  const cycleLightPattern = () => {
+    lightsBeforeCountdown.current = null;
+    setLightPattern(p => LIGHT_PATTERNS[(LIGHT_PATTERNS.indexOf(p) + 1) % LIGHT_PATTERNS.length]);
+  };
+  const sound = useMemo(() => createAudioEngine(), []);
+  const audio = useAudioState(sound);
+  useAudioUnlock(sound);
+  const musicInputRef = useRef<HTMLInputElement>(null);
+  const [aiStatus, setAiStatus] = useState(CONFIG.controls.camera ? "INITIALIZING..." : GESTURES_OFF);
+  useEffect(() => { if (!cameraOn) setAiStatus(GESTURES_OFF); }, [cameraOn]);
   const [debugMode, setDebugMode] = useState(false);
+  const [fps, setFps] = useState(0);
+  const quality = useQuality();
+  const [galleryOpen, setGalleryOpen] = useState(false);
+  const captureRef = useRef<CaptureApi | null>(null);
+  const [captureOpen, setCaptureOpen] = useState(false);
+  const [recording, setRecording] = useState(false);
+  // 颜色 / 尺寸 / 数量 / 形状 / 种子 / 照片列表，可以导出、导入或通过 #tree= 链接分享
+  const treeConfig = useTreeConfig(() => resolveSeed(CONFIG.seed));
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  // 背景和雪花 / 雪地 / 礼物图层 (只保存在本机，不包含在分享链接中)
+  const environment = useEnvironment();
+  const { seed, shape: shapeType } = treeConfig.config;
+  const shape = useTreeShape(CONFIG.shapes[shapeType], treeConfig.config.tree);
+  const cycleShape = () => {
+    const types = Object.keys(CONFIG.shapes) as ShapeType[];
+    treeConfig.update({ shape: types[(types.indexOf(shapeType) + 1) % types.length] });
+  };
+  const treeCounts = treeConfig.config.counts;
+  const preset = useMemo(() => treeCounts ? { ...quality.preset, counts: treeCounts } : quality.preset, [quality.preset, treeCounts]);
+  const [focused, setFocused] = useState<number | null>(null);
+  const [pickSignal, setPickSignal] = useState(0);
+  const bundledPhotos = usePhotoManifest(CONFIG.photos.manifest);
+  const uploads = useUploadedPhotos();
+
+  const topper = useTopper();
+  // 树顶照片 (默认 top.jpg) 单独显示在树顶装饰上，不再挂到树身
+  const heroPhoto = useMemo(() => bundledPhotos.find(p => photoName(p.src) === CONFIG.topper.hero) ?? null, [bundledPhotos]);
+
+  // 配置中指定了照片列表时按列表的顺序挑选内置照片 (一张都找不到时仍然显示全部)
+  const listedPhotos = treeConfig.config.photos;
+  const bodyPhotos = useMemo(() => {
+    const bundled = bundledPhotos.length > 1 ? bundledPhotos.filter(p => p !== heroPhoto) : bundledPhotos;
+    const listed = listedPhotos?.flatMap(name => bundled.filter(p => photoName(p.src) === name)) ?? [];
+    return listed.length > 0 ? listed : bundled;
+  }, [bundledPhotos, heroPhoto, listedPhotos]);
+  const exportConfig = () => downloadBlob(new Blob([treeConfigToJson({ ...treeConfig.config, photos: bodyPhotos.map(p => photoName(p.src)) })], { type: 'application/json' }), 'json');
+
+  // 上传的照片与内置照片合并（或在 replace 模式下替换内置照片）
+  const photos = useMemo(() => {
+    const uploaded = uploads.photos.map(toPhotoEntry);
+    if (uploads.mode === 'replace' && uploaded.length > 0) return uploaded;
+    return [...bodyPhotos, ...uploaded];
+  }, [bodyPhotos, uploads.photos, uploads.mode]);
+
+  // 捏合：已聚焦时关闭，否则请求选中屏幕中央的照片 (用 ref 读取，避免手势识别被重新初始化)
+  const focusedRef = useRef(focused);
+  focusedRef.current = focused;
+  const handlePinch = useCallback(() => {
+    if (focusedRef.current !== null) setFocused(null); else setPickSignal(n => n + 1);
+  }, []);
+
+  const layoutRef = useRef<OrnamentStop[]>([]);
+  const tour = useTour(CONFIG.tour, scene.transition);
+  // 幻灯片的开始 / 结束 / 翻页同步给其他屏幕；开始时带上打乱顺序用的种子
+  const runTour = (action: TourAction, seed = 0) => {
+    switch (action) {
+      case 'start': tour.start(buildTourQueue(layoutRef.current, CONFIG.tour, createRng(seed, 'tour'))); break;
+      case 'stop': tour.stop(); break;
+      case 'next': tour.next(); break;
+      case 'prev': tour.prev(); break;
+    }
+  };
+  const shareTour = (action: TourAction, seed?: number) => {
+    runTour(action, seed);
+    remoteSend({ type: 'tour', action, seed });
+  };
+  const toggleTour = () => {
+    if (tour.active) shareTour('stop');
+    else shareTour('start', Math.floor(Math.random() * 2 ** 31));
+  };
+  const tourPhoto = tour.current !== null ? layoutRef.current[tour.current]?.photo : undefined;
+
+  // 其他屏幕 / 遥控器用照片列表中的序号指定聚焦的照片
+  const focusedStop = focused !== null ? layoutRef.current[focused] : undefined;
+  const focusedPhoto = focusedStop ? photos.indexOf(focusedStop.photo) : -1;
+  const focusPhoto = (index: number | null) => {
+    const stop = index !== null ? layoutRef.current.findIndex(s => s.photo === photos[index]) : -1;
+    setFocused(stop >= 0 ? stop : null);
+  };
+
+  // 截图 / 录像
+  const takeSnapshot = async (size: [number, number], overlay: Overlay) => {
+    const capture = captureRef.current; if (!capture) return;
+    downloadBlob(await composeImage(await capture.snapshot(...size), overlay), 'png');
+    sound.effect('shutter');
+  };
+  const recordClip = async (onProgress: (progress: number) => void) => {
+    const capture = captureRef.current; if (!capture) return;
+    if (tour.active) tour.stop();
+    setFocused(null); setRecording(true);
+    try {
+      await nextFrames(1);
+      const [width, height] = CONFIG.capture.video.size;
+      downloadBlob(await capture.record({ width, height, fps: CONFIG.capture.video.fps, hold: CONFIG.capture.video.hold, onProgress }), 'webm');
+    } finally { setRecording(false); }
+  };
+
+  // 音效：离开圣诞树时呼的一声，聚合时响铃，聚焦照片时快门声
+  useEffect(() => scene.subscribe(event => {
+    if (event.type !== 'enter' || isTreeMode(event.mode) === isTreeMode(event.from)) return;
+    sound.effect(isTreeMode(event.mode) ? 'chimes' : 'whoosh');
+  }), [scene, sound]);
+  useEffect(() => { if (focused !== null) sound.effect('shutter'); }, [focused, sound]);
+
+  // 屏幕阅读器：状态变化、聚焦的照片、幻灯片的每一站
+  useEffect(() => scene.subscribe(event => { if (event.type === 'enter') announce(MODE_ANNOUNCEMENTS[event.mode]); }), [scene, announce]);
+  useAnnounceChange(focused, announce, index => {
+    const photo = index !== null ? layoutRef.current[index]?.photo : undefined;
+    return index === null ? 'Photo closed' : photo ? `Photo: ${describePhoto(photo)}` : null;
+  });
+  useAnnounceChange(tour.current, announce, () => tour.active && tourPhoto ? `Tour ${tour.position + 1} of ${tour.length}: ${describePhoto(tourPhoto)}` : null);
+  useAnnounceChange(tour.active, announce, active => active ? null : 'Tour ended');
+  useAnnounceChange(lightsOn, announce, on => on ? 'Lights on' : 'Lights off');
+  useAnnounceChange(lightPattern, announce, pattern => `Light pattern: ${pattern}`);
+  useAnnounceChange(shapeType, announce, type => `Tree shape: ${type}`);
+  useAnnounceChange(cameraOn, announce, on => on ? 'Camera gestures on' : 'Camera gestures off');
+
+  // 手势 -> 动作 (映射表见 CONFIG.gestures.actions)；通过 ref 读取最新状态，保持回调稳定
+  const actionRef = useRef<(action: GestureAction) => void>(() => {});
+  actionRef.current = (action) => {
+    switch (action) {
+      // 减少动态效果时不盘旋、不爆炸，直接聚合 / 散开
+      case 'assemble': transition(reducedMotion ? 'FORMED' : CONFIG.scene.assemble); break;
+      case 'disperse': transition(reducedMotion ? 'CHAOS' : CONFIG.scene.disperse); break;
+      case 'toggleGallery': toggleMode('GALLERY'); break;
+      case 'toggleSnowglobe': toggleMode('SNOWGLOBE'); break;
+      case 'toggleLights': lightsBeforeCountdown.current = null; setLightsOn(on => !on); break;
+      case 'nextLightPattern': cycleLightPattern(); break;
+      case 'toggleTour': toggleTour(); break;
+      case 'nextShape': cycleShape(); break;
+      case 'nextPhoto':
+      case 'prevPhoto': {
+        const step = action === 'nextPhoto' ? 1 : -1;
+        const total = layoutRef.current.length;
+        if (tour.active) shareTour(step > 0 ? 'next' : 'prev');
+        else if (focused !== null && total > 0) setFocused((focused + step + total) % total);
+        else setPickSignal(n => n + 1);
+        break;
+      }
+    }
+  };
+  const handleAction = useCallback((action: GestureAction) => actionRef.current(action), []);
+  // 两只手张开后分开：分得越开炸得越远 (减少动态效果时直接散开)
+  const reducedMotionRef = useRef(reducedMotion);
+  reducedMotionRef.current = reducedMotion;
+  const handleExplode = useCallback((spread: number) => {
+    if (reducedMotionRef.current) transition('CHAOS'); else transition('EXPLODING', spread);
+  }, [transition]);
+
+  // 灯光 / 灯效 / 种子 / 形状 / 聚焦的照片：无论从哪里改的 (按钮、手势、键盘、设置面板) 都同步给其他屏幕
+  const { share: remoteShare, receive: remoteReceive } = remote;
+  useEffect(() => {
+    remoteShare({ lights: lightsOn, pattern: lightPattern, seed, shape: shapeType, focus: focusedPhoto >= 0 ? focusedPhoto : null });
+  }, [remoteShare, lightsOn, lightPattern, seed, shapeType, focusedPhoto]);
+  // 完整的状态交给中继保存，新加入的屏幕和遥控器从这里开始
+  const snapshot = useMemo<Snapshot>(() => ({
+    mode: sceneMode, spread: sceneSpread, seed, shape: shapeType, focus: focusedPhoto >= 0 ? focusedPhoto : null,
+    lights: lightsOn, pattern: lightPattern, photos: photos.length, tour: tour.active
+  }), [sceneMode, sceneSpread, seed, shapeType, focusedPhoto, lightsOn, lightPattern, photos.length, tour.active]);
+  useEffect(() => { if (remote.status === 'connected') remoteSend({ type: 'snapshot', snapshot }); }, [remote.status, remoteSend, snapshot]);
+
+  const applyState = (patch: Partial<SyncState>) => {
+    remoteReceive(patch);
+    if (patch.mode) {
+      const mode = reducedMotion ? CALM_MODES[patch.mode] ?? patch.mode : patch.mode;
+      scene.transition(mode, mode === 'EXPLODING' ? patch.spread ?? 1 : 1);
+    }
+    if (patch.seed !== undefined) treeConfig.update({ seed: patch.seed });
+    if (patch.shape) treeConfig.update({ shape: patch.shape });
+    if (patch.lights !== undefined) setLightsOn(patch.lights);
+    if (patch.pattern) setLightPattern(patch.pattern);
+    if (patch.focus !== undefined) focusPhoto(patch.focus);
+  };
+  const applyRemote = (message: RemoteMessage) => {
+    switch (message.type) {
+      // 第一个连上的屏幕没有可以跟随的状态，由上面的 snapshot 发出自己的
+      case 'welcome': if (message.snapshot) applyState(message.snapshot); break;
+      case 'state': applyState(message.patch); break;
+      case 'tour': runTour(message.action, message.seed); break;
+      case 'orbit': cameraNudge.current.azimuth += message.azimuth; cameraNudge.current.polar += message.polar; break;
+      case 'zoom': cameraNudge.current.zoom += message.amount; break;
+    }
+  };
+  useAnnounceChange(remote.status, announce, status => status === 'connected' ? 'Remote control connected' : null);
+
+  // 倒计时和日程 (CONFIG.schedule)：每块屏幕按自己的时钟执行，时间相同时各屏幕自然同步
+  const clock = useMemo(resolveClock, []);
+  const [celebrating, setCelebrating] = useState(false);
+  // 日程改的灯效：在倒计时窗口内 (归零前最早的 countdown 日程到庆祝结束) 是临时的，窗口结束后恢复；窗口外的改动和手动切换一样保留
+  const countdownLead = useMemo(() => Math.max(0, ...CONFIG.schedule.events.map(entry => 'countdown' in entry ? -entry.countdown : 0)), []);
+  const restoreLightsTimer = useRef<ReturnType<typeof setTimeout>>();
+  useEffect(() => () => clearTimeout(restoreLightsTimer.current), []);
+  const schedulePattern = (pattern: LightPattern) => {
+    const countdown = nextCountdown(CONFIG.schedule.targets, clock(), CONFIG.schedule.celebration.duration);
+    // 调度器每秒检查一次，多留一秒余量
+    if (countdown && countdown.remaining <= (countdownLead + 1) * 1000 && !lightsBeforeCountdown.current) {
+      lightsBeforeCountdown.current = { pattern: lightPattern, on: lightsOn };
+      clearTimeout(restoreLightsTimer.current);
+      restoreLightsTimer.current = setTimeout(() => {
+        const before = lightsBeforeCountdown.current;
+        lightsBeforeCountdown.current = null;
+        if (before) { setLightPattern(before.pattern); setLightsOn(before.on); }
+      }, countdown.remaining + CONFIG.schedule.celebration.duration * 1000);
+    }
+    setLightsOn(true); setLightPattern(pattern);
+  };
+  const revealTimer = useRef<ReturnType<typeof setTimeout>>();
+  const revealPhoto = (name?: string) => {
+    const index = photos.findIndex(p => name ? photoName(p.src) === name : p.featured);
+    // 找不到时不展示 (不能随便拿第一张照片顶替)
+    if (index < 0) {
+      if (name) console.warn(`[schedule] featuredPhoto: no photo named "${name}"`);
+      return;
+    }
+    const stop = layoutRef.current.findIndex(s => s.photo === photos[index]);
+    if (stop < 0) return;
+    setFocused(stop);
+    // 展示一会儿之后放回树上 (期间有人换了别的照片就不管了)
+    clearTimeout(revealTimer.current);
+    revealTimer.current = setTimeout(() => setFocused(current => current === stop ? null : current), CONFIG.schedule.reveal * 1000);
+  };
+  useSchedule(CONFIG.schedule, clock, (action: ScheduledAction) => {
+    // 录像时不打断
+    if (recording) return;
+    switch (action.type) {
+      // 已经是树 (或水晶球) 时不重播盘旋聚合；照片墙和幻灯片中也不拉回
+      case 'assemble': {
+        const mode = scene.get().mode;
+        if (!isTreeMode(mode) && mode !== 'GALLERY' && !tour.active) actionRef.current('assemble');
+        break;
+      }
+      case 'disperse': actionRef.current('disperse'); break;
+      case 'lightPattern': schedulePattern(action.pattern); break;
+      case 'featuredPhoto': revealPhoto(action.photo); break;
+      case 'celebrate': {
+        const { pattern, spread } = CONFIG.schedule.celebration;
+        schedulePattern(pattern);
+        setCelebrating(true);
+        if (!reducedMotion) transition('EXPLODING', spread);
+        announce(nextCountdown(CONFIG.schedule.targets, clock(), CONFIG.schedule.celebration.duration)?.message ?? 'Celebration');
+        break;
+      }
+    }
+  });
+  useEffect(() => {
+    if (!celebrating) return;
+    const id = setTimeout(() => setCelebrating(false), CONFIG.schedule.celebration.duration * 1000);
+    return () => clearTimeout(id);
+  }, [celebrating]);
+
+  // Esc 一次退出一层：聚焦的照片 -> 幻灯片 -> 照片墙 / 水晶球 -> 打开的面板
+  const exitOneLevel = () => {
+    if (focused !== null) setFocused(null);
+    else if (tour.active) shareTour('stop');
+    else if (sceneMode === 'GALLERY' || sceneMode === 'SNOWGLOBE') transition('FORMED');
+    else { setSettingsOpen(false); setCaptureOpen(false); setGalleryOpen(false); }
+  };
+
+  // 键盘：空格聚合 / 散开，方向键旋转，+ / - 缩放，回车聚焦照片 (已聚焦时换下一张)，C 开关摄像头，Esc 退出
+  // 幻灯片模式下空格 / 左右方向键 (以及翻页笔、遥控器) 控制播放、上一张、下一张
+  const keyRef = useRef<(e: KeyboardEvent) => void>(() => {});
+  keyRef.current = (e) => {
+    if (isReservedKey(e.target, e.key) || e.ctrlKey || e.metaKey || e.altKey) return;
+    if (tour.active) {
+      if (e.key === ' ' || e.key === 'MediaPlayPause') { e.preventDefault(); tour.togglePlay(); return; }
+      if (e.key === 'ArrowRight' || e.key === 'PageDown' || e.key === 'MediaTrackNext') { shareTour('next'); return; }
+      if (e.key === 'ArrowLeft' || e.key === 'PageUp' || e.key === 'MediaTrackPrevious') { shareTour('prev'); return; }
+    }
+    const command = keyCommand(e.key);
+    if (!command) return;
+    e.preventDefault();
+    switch (command.type) {
+      case 'toggleFormation': handleAction(isTreeMode(sceneMode) ? 'disperse' : 'assemble'); break;
+      case 'orbit': cameraNudge.current.azimuth += command.azimuth; cameraNudge.current.polar += command.polar; break;
+      case 'zoom': cameraNudge.current.zoom += command.amount; break;
+      case 'focusPhoto': handleAction('nextPhoto'); break;
+      case 'toggleCamera': setCameraOn(on => !on); break;
+      case 'exit': exitOneLevel(); break;
+    }
+  };
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => keyRef.current(e);
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  // 触摸：两指扭转旋转镜头，双击聚合 / 散开 (捏合缩放由 OrbitControls 处理)
+  const canvasWrapperRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const element = canvasWrapperRef.current; if (!element) return;
+    const gestures = createTouchGestures({
+      onTwist: radians => { cameraNudge.current.azimuth -= radians; },
+      onDoubleTap: () => actionRef.current(isTreeMode(scene.get().mode) ? 'disperse' : 'assemble')
+    });
+    const points = (e: TouchEvent): TouchPoint[] => Array.from(e.touches, touch => ({ x: touch.clientX, y: touch.clientY }));
+    const handlers: [keyof HTMLElementEventMap, (e: TouchEvent) => void][] = [
+      ['touchstart', e => gestures.start(points(e))],
+      ['touchmove', e => gestures.move(points(e))],
+      ['touchend', e => gestures.end(points(e))],
+      ['touchcancel', e => gestures.end(points(e))]
+    ];
+    handlers.forEach(([name, handler]) => element.addEventListener(name, handler as EventListener, { passive: true }));
+    return () => handlers.forEach(([name, handler]) => element.removeEventListener(name, handler as EventListener));
+  }, [scene]);
 
   return (
     <div style={{ width: '100vw', height: '100vh', backgroundColor: '#000', position: 'relative', overflow: 'hidden' }}>
-      <div style={{ width: '100%', height: '100%', position: 'absolute', top: 0, left: 0, zIndex: 1 }}>
-        <Canvas dpr={[1, 2]} gl={{ toneMapping: THREE.ReinhardToneMapping }} shadows>
-            <Experience sceneState={sceneState} rotationSpeed={rotationSpeed} />
-        </Canvas>
+      <div ref={canvasWrapperRef} role="img" aria-label={`Interactive 3D Christmas tree with ${photos.length} photos`} aria-describedby="tree-controls-help" style={{ width: '100%', height: '100%', position: 'absolute', top: 0, left: 0, zIndex: 1 }}>
+        <SceneContext.Provider value={scene}>
+          <MotionContext.Provider value={motionScale(reducedMotion)}>
+            <Canvas dpr={quality.preset.dpr} gl={{ toneMapping: THREE.ReinhardToneMapping }} shadows onPointerMissed={() => setFocused(null)}>
+                {/* 平均帧率低于刷新率的 75% 降一档，高于 95% 升一档；换档后重新统计，来回换档 4 次后锁定档位 */}
+                {!recording && <PerformanceMonitor bounds={refreshrate => [refreshrate * 0.75, refreshrate * 0.95]} flipflops={4} onDecline={quality.decline} onIncline={quality.incline} onFallback={quality.fallback} />}
+                {debugMode && <FpsMeter onFps={setFps} />}
+                <Experience cameraInput={cameraInput} cameraNudge={cameraNudge} handPresent={handPresent} lightsOn={lightsOn} lightPattern={lightPattern} audioLevels={audio.playing ? sound.levels : null} photos={photos} focused={focused} onFocus={setFocused} pickSignal={pickSignal} layoutRef={layoutRef} tourStop={tour.current} seed={seed} shape={shape} quality={preset} topper={topper} heroPhoto={heroPhoto} recording={recording} colors={treeConfig.config.colors} effects={treeConfig.config.effects} environment={environment.settings} celebrating={celebrating} />
+                <CaptureBridge captureRef={captureRef} clock={sceneClock} />
+            </Canvas>
+          </MotionContext.Provider>
+        </SceneContext.Provider>
       </div>
-      <GestureController onGesture={setSceneState} onMove={setRotationSpeed} onStatus={setAiStatus} debugMode={debugMode} />
+      {cameraOn && (
+        <SoundContext.Provider value={sound}>
+          <GestureController onAction={handleAction} onExplode={handleExplode} onPinch={handlePinch} onHand={setHandPresent} onStatus={setAiStatus} cameraInput={cameraInput} debugMode={debugMode} />
+        </SoundContext.Provider>
+      )}
+
+      {/* UI - 屏幕阅读器：键盘说明和状态播报 */}
+      <p id="tree-controls-help" style={visuallyHidden}>
+        Space assembles or disperses the tree. Arrow keys orbit the camera, plus and minus zoom. Enter focuses a photo, Escape goes back. C turns camera gestures on or off.
+        On touch screens, twist two fingers to rotate, pinch to zoom and double-tap to assemble or disperse.
+      </p>
+      <div role="status" aria-live="polite" style={visuallyHidden}>{announcement}</div>
 
       {/* UI - Stats */}
       <div style={{ position: 'absolute', bottom: '30px', left: '40px', color: '#888', zIndex: 10, fontFamily: 'sans-serif', userSelect: 'none' }}>
         <div style={{ marginBottom: '15px' }}>
           <p style={{ fontSize: '10px', letterSpacing: '2px', textTransform: 'uppercase', marginBottom: '4px' }}>Memories</p>
           <p style={{ fontSize: '24px', color: '#FFD700', fontWeight: 'bold', margin: 0 }}>
-            {CONFIG.counts.ornaments.toLocaleString()} <span style={{ fontSize: '10px', color: '#555', fontWeight: 'normal' }}>POLAROIDS</span>
+            {photos.length.toLocaleString()} <span style={{ fontSize: '10px', color: '#555', fontWeight: 'normal' }}>PHOTOS</span>
           </p>
         </div>
         <div>
           <p style={{ fontSize: '10px', letterSpacing: '2px', textTransform: 'uppercase', marginBottom: '4px' }}>Foliage</p>
           <p style={{ fontSize: '24px', color: '#004225', fontWeight: 'bold', margin: 0 }}>
-            {(CONFIG.counts.foliage / 1000).toFixed(0)}K <span style={{ fontSize: '10px', color: '#555', fontWeight: 'normal' }}>EMERALD NEEDLES</span>
+            {(preset.counts.foliage / 1000).toFixed(0)}K <span style={{ fontSize: '10px', color: '#555', fontWeight: 'normal' }}>EMERALD NEEDLES</span>
           </p>
         </div>
+        {remote.status !== 'off' && <p style={{ fontSize: '10px', letterSpacing: '2px', margin: '15px 0 0', color: remote.status === 'connected' ? '#FFD700' : '#555' }}>{remote.status === 'connected' ? '● RELAY CONNECTED' : '○ RELAY CONNECTING...'}</p>}
+        {debugMode && <p style={{ fontSize: '10px', letterSpacing: '2px', margin: '15px 0 0', color: '#555' }}>SEED {seed} · {sceneMode} · {fps} FPS · {quality.tier.toUpperCase()}{quality.setting === 'auto' ? (quality.locked ? ' (AUTO, LOCKED)' : ' (AUTO)') : ''}</p>}
       </div>
 
       {/* UI - Buttons */}
       <div style={{ position: 'absolute', bottom: '30px', right: '40px', zIndex: 10, display: 'flex', gap: '10px' }}>
-        <button onClick={() => setDebugMode(!debugMode)} style={{ padding: '12px 15px', backgroundColor: debugMode ? '#FFD700' : 'rgba(0,0,0,0.5)', border: '1px solid #FFD700', color: debugMode ? '#000' : '#FFD700', fontFamily: 'sans-serif', fontSize: '12px', fontWeight: 'bold', cursor: 'pointer', backdropFilter: 'blur(4px)' }}>
+        <ToolbarButton onClick={cycleShape} aria-label={`Tree shape: ${shapeType}`}>
+           ✦ {shapeType}
+        </ToolbarButton>
+        <ToolbarButton onClick={toggleTour} aria-label="Photo tour" active={tour.active}>
+           {tour.active ? '■ END TOUR' : '▶ TOUR'}
+        </ToolbarButton>
+        <ToolbarButton onClick={() => setGalleryOpen(!galleryOpen)} aria-label="Photos" active={galleryOpen}>
+           📷 PHOTOS
+        </ToolbarButton>
+        <ToolbarButton onClick={quality.cycle} title="Quality" aria-label={`Quality: ${quality.setting}`}>
+           ⚙ {quality.setting}
+        </ToolbarButton>
+        <ToolbarButton onClick={cycleLightPattern} title="Light pattern" aria-label={`Light pattern: ${lightPattern}`}>
+           💡 {lightPattern}
+        </ToolbarButton>
+        {/* 音乐：♫ 选择本地文件作为播放列表，彩灯跟着节奏闪 */}
+        <div style={{ display: 'flex', alignItems: 'center', gap: '6px', padding: '0 10px', backgroundColor: 'rgba(0,0,0,0.5)', border: '1px solid #FFD700', backdropFilter: 'blur(4px)' }}>
+          <button onClick={() => musicInputRef.current?.click()} title="Choose music" aria-label="Choose music" style={{ background: 'none', border: 'none', color: '#FFD700', fontSize: '14px', cursor: 'pointer', padding: '4px' }}>♫</button>
+          {audio.tracks.length > 0 && <>
+            <button onClick={sound.toggle} title={audio.tracks[audio.index]?.name} aria-label={`${audio.playing ? 'Pause' : 'Play'} ${audio.tracks[audio.index]?.name ?? 'music'}`} style={{ background: 'none', border: 'none', color: '#FFD700', fontSize: '12px', cursor: 'pointer', padding: '4px' }}>{audio.playing ? '❚❚' : '▶'}</button>
+            {audio.tracks.length > 1 && <button onClick={sound.next} title="Next track" aria-label="Next track" style={{ background: 'none', border: 'none', color: '#FFD700', fontSize: '12px', cursor: 'pointer', padding: '4px' }}>⏭</button>}
+          </>}
+          <button onClick={sound.toggleMute} title={audio.muted ? 'Unmute' : 'Mute'} aria-label={audio.muted ? 'Unmute' : 'Mute'} style={{ background: 'none', border: 'none', color: '#FFD700', fontSize: '14px', cursor: 'pointer', padding: '4px' }}>{audio.muted ? '🔇' : '🔊'}</button>
+          <input type="range" min={0} max={1} step={0.05} value={audio.muted ? 0 : audio.volume} onChange={e => sound.setVolume(Number(e.target.value))} aria-label="Volume" style={{ width: '70px', accentColor: '#FFD700' }} />
+          <input ref={musicInputRef} type="file" accept="audio/*" multiple style={{ display: 'none' }} onChange={e => { sound.loadFiles(Array.from(e.target.files ?? [])); e.target.value = ''; }} />
+        </div>
+        <ToolbarButton onClick={() => setSettingsOpen(!settingsOpen)} aria-label="Tree settings" active={settingsOpen}>
+           🎄 TREE
+        </ToolbarButton>
+        <ToolbarButton onClick={() => setCaptureOpen(!captureOpen)} aria-label="Capture" active={captureOpen}>
+           📸 CAPTURE
+        </ToolbarButton>
+        <ToolbarButton onClick={() => setCameraOn(!cameraOn)} aria-label="Camera gestures" active={cameraOn}>
+           🖐 CAMERA
+        </ToolbarButton>
+        <ToolbarButton onClick={() => setDebugMode(!debugMode)} aria-label="Debug" active={debugMode}>
            {debugMode ? 'HIDE DEBUG' : '🛠 DEBUG'}
-        </button>
-        <button onClick={() => setSceneState(s => s === 'CHAOS' ? 'FORMED' : 'CHAOS')} style={{ padding: '12px 30px', backgroundColor: 'rgba(0,0,0,0.5)', border: '1px solid rgba(255, 215, 0, 0.5)', color: '#FFD700', fontFamily: 'serif', fontSize: '14px', fontWeight: 'bold', letterSpacing: '3px', textTransform: 'uppercase', cursor: 'pointer', backdropFilter: 'blur(4px)' }}>
-           {sceneState === 'CHAOS' ? 'Assemble Tree' : 'Disperse'}
+        </ToolbarButton>
+        <ToolbarButton onClick={() => toggleMode('GALLERY')} aria-label="Photo wall" active={sceneMode === 'GALLERY'}>
+           ▦ WALL
+        </ToolbarButton>
+        <ToolbarButton onClick={() => toggleMode('SNOWGLOBE')} aria-label="Snow globe" active={sceneMode === 'SNOWGLOBE'}>
+           ◯ GLOBE
+        </ToolbarButton>
+        <button onClick={() => handleAction(isTreeMode(sceneMode) ? 'disperse' : 'assemble')} style={{ padding: '12px 30px', backgroundColor: 'rgba(0,0,0,0.5)', border: '1px solid rgba(255, 215, 0, 0.5)', color: '#FFD700', fontFamily: 'serif', fontSize: '14px', fontWeight: 'bold', letterSpacing: '3px', textTransform: 'uppercase', cursor: 'pointer', backdropFilter: 'blur(4px)' }}>
+           {isTreeMode(sceneMode) ? 'Disperse' : 'Assemble Tree'}
         </button>
       </div>
 
+      {/* UI - Countdown */}
+      {CONFIG.schedule.countdown && <CountdownOverlay targets={CONFIG.schedule.targets} hold={CONFIG.schedule.celebration.duration} now={clock} />}
+
+      {/* UI - Tour */}
+      {tour.active && (
+        <div style={{ position: 'absolute', bottom: '100px', left: '50%', transform: 'translateX(-50%)', zIndex: 10, textAlign: 'center', color: '#FFD700', fontFamily: 'serif', userSelect: 'none' }}>
+          {tourPhoto?.caption && <p style={{ fontSize: '22px', fontStyle: 'italic', margin: '0 0 4px' }}>{tourPhoto.caption}</p>}
+          {tourPhoto?.date && <p style={{ fontSize: '12px', letterSpacing: '2px', color: '#888', margin: '0 0 8px' }}>{tourPhoto.date}</p>}
+          <p style={{ fontSize: '10px', letterSpacing: '2px', color: '#555', margin: 0, fontFamily: 'sans-serif' }}>
+            {tour.position + 1} / {tour.length} {tour.playing ? '' : '· PAUSED'} · ← → SPACE ESC
+          </p>
+        </div>
+      )}
+
+      {settingsOpen && <SettingsPanel treeConfig={treeConfig} counts={preset.counts} environment={environment} onExport={exportConfig} onClose={() => setSettingsOpen(false)} />}
+      {captureOpen && <CapturePanel onSnapshot={takeSnapshot} onRecord={recordClip} onClose={() => setCaptureOpen(false)} />}
+      {galleryOpen && <PhotoGallery uploads={uploads} topper={topper} onClose={() => setGalleryOpen(false)} />}
+
+      {/* UI - 打开的 #tree= 链接无效时说明原因，而不是默默用默认配置 */}
+      {treeConfig.error && (
+        <div role="alert" style={{ position: 'absolute', top: '50px', left: '50%', transform: 'translateX(-50%)', zIndex: 30, maxWidth: '480px', background: 'rgba(0,0,0,0.85)', border: '1px solid #D32F2F', color: '#FFD700', fontFamily: 'sans-serif', fontSize: '12px', padding: '10px 14px', whiteSpace: 'pre-line' }}>
+          {treeConfig.error}
+          <button onClick={treeConfig.dismissError} style={{ marginLeft: '10px', background: 'none', border: 'none', color: '#FFD700', cursor: 'pointer' }} aria-label="Dismiss">✕</button>
+        </div>
+      )}
+
       {/* UI - AI Status */}
       <div style={{ position: 'absolute', top: '20px', left: '50%', transform: 'translateX(-50%)', color: aiStatus.includes('ERROR') ? '#FF0000' : 'rgba(255, 215, 0, 0.4)', fontSize: '10px', letterSpacing: '2px', zIndex: 10, background: 'rgba(0,0,0,0.5)', padding: '4px 8px', borderRadius: '4px' }}>
         {aiStatus}
@@ -0,0 +1,66 @@
+import { useState } from 'react';
+import { CONFIG } from './config';
+import { pickVideoType, type Overlay } from './capture';
+import { buttonStyle, iconStyle } from './styles';
+
+
+type CapturePanelProps = {
+  onSnapshot: (size: [number, number], overlay: Overlay) => Promise<void>,
+  onRecord: (onProgress: (progress: number) => void) => Promise<void>,
+  onClose: () => void
+};
+
+// --- Capture Panel: 高清截图 (带说明文字 / 水印) 和 WebM 录像 ---
+export default function CapturePanel({ onSnapshot, onRecord, onClose }: CapturePanelProps) {
+  const resolutions = Object.keys(CONFIG.capture.resolutions);
+  const [resolution, setResolution] = useState(resolutions[resolutions.length - 1]);
+  const [caption, setCaption] = useState('');
+  const [watermark, setWatermark] = useState(true);
+  const [status, setStatus] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const videoSupported = pickVideoType() !== null;
+
+  const run = async (label: string, task: () => Promise<void>) => {
+    setBusy(true); setStatus(label);
+    try {
+      await task();
+      setStatus(null);
+    } catch (err) {
+      setStatus(`ERROR: ${(err as Error).message}`);
+    } finally { setBusy(false); }
+  };
+
+  return (
+    <div role="dialog" aria-label="Capture" style={{ position: 'absolute', bottom: '90px', right: '40px', width: '300px', zIndex: 20, background: 'rgba(0,0,0,0.85)', border: '1px solid rgba(255, 215, 0, 0.3)', backdropFilter: 'blur(6px)', color: '#FFD700', fontFamily: 'sans-serif', padding: '15px', boxSizing: 'border-box', display: 'flex', flexDirection: 'column', gap: '10px' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <span style={{ fontSize: '12px', letterSpacing: '3px', textTransform: 'uppercase' }}>Capture</span>
+        <button onClick={onClose} style={iconStyle} aria-label="Close capture">✕</button>
+      </div>
+
+      <label style={{ fontSize: '11px', color: '#888', display: 'flex', gap: '8px', alignItems: 'center' }}>
+        Resolution
+        <select value={resolution} onChange={e => setResolution(e.target.value)} disabled={busy} style={{ ...buttonStyle, padding: '4px 6px' }}>
+          {resolutions.map(name => <option key={name} value={name}>{name} ({CONFIG.capture.resolutions[name].join('×')})</option>)}
+        </select>
+      </label>
+      <input value={caption} onChange={e => setCaption(e.target.value)} placeholder="Caption (optional)" disabled={busy} style={{ ...buttonStyle, cursor: 'text', padding: '6px 8px' }} />
+      <label style={{ fontSize: '11px', color: '#888', display: 'flex', gap: '6px', alignItems: 'center' }}>
+        <input type="checkbox" checked={watermark} onChange={e => setWatermark(e.target.checked)} disabled={busy} />
+        Watermark
+      </label>
+
+      <div style={{ display: 'flex', gap: '8px' }}>
+        <button disabled={busy} onClick={() => run('RENDERING...', () => onSnapshot(CONFIG.capture.resolutions[resolution], { caption, watermark }))} style={buttonStyle}>
+          Save PNG
+        </button>
+        <button disabled={busy || !videoSupported} title={videoSupported ? undefined : 'WebM recording is not supported in this browser'} onClick={() => run('PREPARING...', () => onRecord(p => setStatus(`RECORDING ${Math.round(p * 100)}%`)))} style={buttonStyle}>
+          Record WebM
+        </button>
+      </div>
+      <div style={{ fontSize: '10px', color: '#555' }}>
+        Video: {CONFIG.capture.video.size.join('×')} · {CONFIG.capture.video.fps} fps · disperse → assemble with a turntable orbit
+      </div>
+      {status && <div style={{ fontSize: '11px', color: status.startsWith('ERROR') ? '#D32F2F' : '#FFD700' }}>{status}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import { useEffect, useState } from 'react';
+import { formatCountdown, nextCountdown, type Clock, type CountdownTarget } from './schedule';
+
+type CountdownOverlayProps = {
+  targets: readonly CountdownTarget[],
+  /** 归零后祝福语显示的秒数 */
+  hold: number,
+  now: Clock
+};
+
+// --- Countdown Overlay: 到下一个目标 (圣诞夜零点、新年……) 的倒计时，归零后显示祝福语 ---
+// 自己每秒刷新，不会让整个场景跟着重新渲染
+export default function CountdownOverlay({ targets, hold, now }: CountdownOverlayProps) {
+  const [time, setTime] = useState(now);
+  useEffect(() => {
+    const id = setInterval(() => setTime(now()), 1000);
+    return () => clearInterval(id);
+  }, [now]);
+
+  const countdown = nextCountdown(targets, time, hold);
+  if (!countdown) return null;
+  return (
+    <div role="timer" style={{ position: 'absolute', top: '50px', left: '50%', transform: 'translateX(-50%)', zIndex: 10, textAlign: 'center', color: '#FFD700', fontFamily: 'serif', userSelect: 'none', pointerEvents: 'none' }}>
+      {countdown.remaining <= 0 ? (
+        <p style={{ fontSize: '36px', fontStyle: 'italic', margin: 0, textShadow: '0 0 20px rgba(255, 215, 0, 0.6)' }}>{countdown.message}</p>
+      ) : <>
+        <p style={{ fontSize: '10px', letterSpacing: '3px', color: '#888', margin: '0 0 4px', fontFamily: 'sans-serif', textTransform: 'uppercase' }}>{countdown.label} in</p>
+        <p style={{ fontSize: '28px', letterSpacing: '4px', margin: 0, fontVariantNumeric: 'tabular-nums' }}>{formatCountdown(countdown.remaining)}</p>
+      </>}
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import { useEffect, useRef, useState, type ChangeEvent, type DragEvent } from 'react';
+import { filesFromDataTransfer, type UploadedPhotos } from './photoStore';
+import { TOPPER_TYPES, type TopperSettings, type TopperType } from './toppers';
+import { buttonStyle, iconStyle } from './styles';
+
+
+// --- Photo Gallery Panel: 上传 / 排序 / 删除 / 星标 ---
+export default function PhotoGallery({ uploads, topper, onClose }: { uploads: UploadedPhotos, topper: TopperSettings, onClose: () => void }) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const svgInputRef = useRef<HTMLInputElement>(null);
+  const [dragOver, setDragOver] = useState(false);
+  const [svgError, setSvgError] = useState<string | null>(null);
+  const { photos, pending, error, dismissError, mode, setMode, add, remove, move, toggleStar } = uploads;
+
+  // React 的类型里没有 webkitdirectory，直接在 DOM 上设置
+  useEffect(() => { if (folderInputRef.current) folderInputRef.current.webkitdirectory = true; }, []);
+
+  const handleDrop = async (e: DragEvent) => {
+    e.preventDefault();
+    setDragOver(false);
+    add(await filesFromDataTransfer(e.dataTransfer));
+  };
+
+  const handleInput = (e: ChangeEvent<HTMLInputElement>) => {
+    add(Array.from(e.target.files ?? []));
+    e.target.value = '';
+  };
+
+  const handleSvg = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      await topper.uploadSvg(file);
+      setSvgError(null);
+    } catch (err) {
+      setSvgError(`Invalid SVG: ${(err as Error).message}`);
+    }
+  };
+
+  return (
+    <div role="dialog" aria-label="Photos" style={{ position: 'absolute', top: 0, right: 0, bottom: 0, width: '340px', zIndex: 20, background: 'rgba(0,0,0,0.85)', borderLeft: '1px solid rgba(255, 215, 0, 0.3)', backdropFilter: 'blur(6px)', color: '#FFD700', fontFamily: 'sans-serif', display: 'flex', flexDirection: 'column', padding: '20px', boxSizing: 'border-box' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '15px' }}>
+        <span style={{ fontSize: '12px', letterSpacing: '3px', textTransform: 'uppercase' }}>My Photos ({photos.length})</span>
+        <button onClick={onClose} style={iconStyle} aria-label="Close gallery">✕</button>
+      </div>
+
+      <div
+        onDragOver={e => { e.preventDefault(); setDragOver(true); }}
+        onDragLeave={() => setDragOver(false)}
+        onDrop={handleDrop}
+        style={{ border: `1px dashed ${dragOver ? '#FFD700' : 'rgba(255, 215, 0, 0.4)'}`, padding: '20px 10px', textAlign: 'center', fontSize: '11px', color: '#888', marginBottom: '10px' }}
+      >
+        {pending > 0 ? `PROCESSING ${pending}...` : 'DROP PHOTOS OR A FOLDER HERE'}
+        <div style={{ display: 'flex', gap: '8px', justifyContent: 'center', marginTop: '10px' }}>
+          <button onClick={() => fileInputRef.current?.click()} style={buttonStyle}>Choose Photos</button>
+          <button onClick={() => folderInputRef.current?.click()} style={buttonStyle}>Choose Folder</button>
+        </div>
+        <input ref={fileInputRef} type="file" accept="image/*" multiple hidden onChange={handleInput} />
+        <input ref={folderInputRef} type="file" multiple hidden onChange={handleInput} />
+      </div>
+      {error && (
+        <div role="alert" style={{ fontSize: '11px', color: '#D32F2F', marginBottom: '10px', display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '6px' }}>
+          {error}
+          <button onClick={dismissError} style={{ ...iconStyle, color: '#D32F2F' }} aria-label="Dismiss error">✕</button>
+        </div>
+      )}
+
+      <label style={{ fontSize: '11px', color: '#888', marginBottom: '15px', display: 'flex', gap: '6px', alignItems: 'center' }}>
+        <input type="checkbox" checked={mode === 'replace'} onChange={e => setMode(e.target.checked ? 'replace' : 'append')} />
+        Show only my photos (hide bundled photos)
+      </label>
+
+      <div style={{ fontSize: '11px', color: '#888', marginBottom: '15px', display: 'flex', gap: '8px', alignItems: 'center' }}>
+        Topper
+        <select value={topper.type} onChange={e => topper.setType(e.target.value as TopperType)} style={{ ...buttonStyle, padding: '4px 6px' }}>
+          {TOPPER_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+        </select>
+        <button onClick={() => svgInputRef.current?.click()} style={buttonStyle}>Upload SVG</button>
+        <input ref={svgInputRef} type="file" accept="image/svg+xml,.svg" hidden onChange={handleSvg} />
+      </div>
+      {svgError && <div style={{ fontSize: '11px', color: '#D32F2F', marginTop: '-10px', marginBottom: '15px' }}>{svgError}</div>}
+
+      <div style={{ flex: 1, overflowY: 'auto', display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: '8px', alignContent: 'start' }}>
+        {photos.map((photo, i) => (
+          <div key={photo.id} style={{ background: '#FFFAF0', padding: '4px 4px 0' }}>
+            <img src={photo.url} alt={photo.name} title={photo.name} style={{ width: '100%', aspectRatio: '1', objectFit: 'cover', display: 'block' }} />
+            <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+              <button onClick={() => move(photo.id, -1)} disabled={i === 0} style={{ ...iconStyle, color: '#555' }} aria-label="Move earlier">◀</button>
+              <button onClick={() => toggleStar(photo.id)} style={{ ...iconStyle, color: photo.featured ? '#D4A000' : '#BBB' }} aria-label="Toggle featured">★</button>
+              <button onClick={() => remove(photo.id)} style={{ ...iconStyle, color: '#D32F2F' }} aria-label="Remove photo">✕</button>
+              <button onClick={() => move(photo.id, 1)} disabled={i === photos.length - 1} style={{ ...iconStyle, color: '#555' }} aria-label="Move later">▶</button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
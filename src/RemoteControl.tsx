@@ -0,0 +1,101 @@
+import { useMemo, useState } from 'react';
+import { CONFIG } from './config';
+import { keyCommand } from './controls';
+import { LIGHT_PATTERNS } from './lightPatterns';
+import { useRemoteChannel, resolveRelayUrl, type Snapshot, type SyncState, type TourAction } from './remote';
+
+const buttonStyle = { padding: '14px 8px', backgroundColor: 'rgba(0,0,0,0.5)', border: '1px solid rgba(255, 215, 0, 0.5)', color: '#FFD700', fontFamily: 'sans-serif', fontSize: '13px', fontWeight: 'bold' as const, letterSpacing: '1px', textTransform: 'uppercase' as const, cursor: 'pointer', borderRadius: 0 };
+const sectionStyle = { fontSize: '10px', letterSpacing: '2px', color: '#888', textTransform: 'uppercase' as const, margin: '20px 0 8px' };
+const rowStyle = (columns: number) => ({ display: 'grid', gridTemplateColumns: `repeat(${columns}, 1fr)`, gap: '8px', marginBottom: '8px' });
+
+// --- Remote Control: 在手机上打开 remote.html?relay=ws://...，通过中继控制所有连着的屏幕 ---
+export default function RemoteControl() {
+  const relayUrl = useMemo(resolveRelayUrl, []);
+  const [snapshot, setSnapshot] = useState<Snapshot | null>(null);
+  const [photo, setPhoto] = useState(1);
+  // 遥控器只发指令；屏幕的状态来自中继保存的最新 snapshot
+  const remote = useRemoteChannel(relayUrl, message => {
+    if (message.type === 'welcome' || message.type === 'snapshot') setSnapshot(message.snapshot);
+  });
+  const connected = remote.status === 'connected';
+  const photos = snapshot?.photos ?? 0;
+
+  const setState = (patch: Partial<SyncState>) => remote.send({ type: 'state', patch });
+  const tour = (action: TourAction) => remote.send({ type: 'tour', action, seed: action === 'start' ? Math.floor(Math.random() * 2 ** 31) : undefined });
+  // 旋转 / 缩放的步长和屏幕上的方向键、+ / - 一样
+  const key = (name: string) => {
+    const command = keyCommand(name);
+    if (command?.type === 'orbit' || command?.type === 'zoom') remote.send(command);
+  };
+  const focus = (index: number) => {
+    if (photos === 0) return;
+    const next = (index + photos) % photos;
+    setPhoto(next + 1);
+    setState({ focus: next });
+  };
+  const button = (label: string, onClick: () => void, active = false) => (
+    <button onClick={onClick} disabled={!connected} aria-pressed={active || undefined} style={{ ...buttonStyle, backgroundColor: active ? '#FFD700' : buttonStyle.backgroundColor, color: active ? '#000' : buttonStyle.color, opacity: connected ? 1 : 0.4 }}>{label}</button>
+  );
+
+  if (!relayUrl) {
+    return (
+      <div style={{ padding: '30px 20px', color: '#FFD700', fontFamily: 'sans-serif', fontSize: '13px' }}>
+        No relay configured. Run <code>npm run relay</code> on this network and open this page as <code>remote.html?relay=ws://&lt;host&gt;:{CONFIG.remote.port}</code>.
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ maxWidth: '420px', margin: '0 auto', padding: '20px', color: '#FFD700', fontFamily: 'sans-serif', boxSizing: 'border-box' }}>
+      <div style={{ fontSize: '12px', letterSpacing: '3px', textTransform: 'uppercase' }}>Tree Remote</div>
+      <div role="status" style={{ fontSize: '10px', letterSpacing: '2px', color: connected ? '#FFD700' : '#888', marginTop: '6px' }}>
+        {connected ? '● CONNECTED' : '○ CONNECTING...'} {relayUrl}
+        {snapshot && <div style={{ color: '#888', marginTop: '4px' }}>
+          {snapshot.mode} · {snapshot.shape} · SEED {snapshot.seed}{snapshot.focus !== null ? ` · PHOTO ${snapshot.focus + 1} / ${photos}` : ''}{snapshot.tour ? ' · TOUR' : ''}
+        </div>}
+        {connected && !snapshot && <div style={{ color: '#888', marginTop: '4px' }}>NO SCREENS YET</div>}
+      </div>
+
+      <p style={sectionStyle}>Tree</p>
+      <div style={rowStyle(2)}>
+        {button('Assemble', () => setState({ mode: CONFIG.scene.assemble, spread: 1 }))}
+        {button('Disperse', () => setState({ mode: CONFIG.scene.disperse, spread: 1 }))}
+      </div>
+
+      <p style={sectionStyle}>Camera</p>
+      <div style={rowStyle(3)}>
+        <span />{button('▲', () => key('ArrowUp'))}<span />
+        {button('◀', () => key('ArrowLeft'))}{button('▼', () => key('ArrowDown'))}{button('▶', () => key('ArrowRight'))}
+      </div>
+      <div style={rowStyle(2)}>
+        {button('＋ Zoom', () => key('+'))}
+        {button('− Zoom', () => key('-'))}
+      </div>
+
+      <p style={sectionStyle}>Photos {photos > 0 && `(${photos})`}</p>
+      <div style={rowStyle(4)}>
+        {button('‹', () => focus((snapshot?.focus ?? photo - 1) - 1))}
+        <input type="number" min={1} max={Math.max(photos, 1)} value={photo} onChange={e => setPhoto(Math.max(1, Math.round(Number(e.target.value)) || 1))} aria-label="Photo number"
+          style={{ ...buttonStyle, cursor: 'text', textAlign: 'center', width: '100%', boxSizing: 'border-box' }} />
+        {button('Show', () => focus(photo - 1))}
+        {button('›', () => focus((snapshot?.focus ?? photo - 1) + 1))}
+      </div>
+      <div style={rowStyle(1)}>
+        {button('Close Photo', () => setState({ focus: null }))}
+      </div>
+
+      <p style={sectionStyle}>Slideshow</p>
+      <div style={rowStyle(3)}>
+        {button('⏮', () => tour('prev'))}
+        {button(snapshot?.tour ? '■ Stop' : '▶ Start', () => tour(snapshot?.tour ? 'stop' : 'start'), snapshot?.tour)}
+        {button('⏭', () => tour('next'))}
+      </div>
+
+      <p style={sectionStyle}>Lights</p>
+      <div style={rowStyle(2)}>
+        {button(snapshot?.lights === false ? 'Lights On' : 'Lights Off', () => setState({ lights: snapshot?.lights === false }))}
+        {button(`💡 ${snapshot?.pattern ?? 'Pattern'}`, () => setState({ pattern: LIGHT_PATTERNS[(LIGHT_PATTERNS.indexOf(snapshot?.pattern ?? CONFIG.lightShow.pattern) + 1) % LIGHT_PATTERNS.length] }))}
+      </div>
+    </div>
+  );
+}
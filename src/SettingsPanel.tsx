@@ -0,0 +1,147 @@
+import { useRef, useState, type ChangeEvent } from 'react';
+import { LIMITS, THEMES, themeConfig, type TreeColors, type TreeConfigStore, type TreeEffects } from './treeConfig';
+import type { QualityPreset } from './quality';
+import { BACKDROP_TYPES, type EnvironmentStore } from './environment';
+import { buttonStyle, iconStyle } from './styles';
+
+const sectionStyle = { fontSize: '10px', letterSpacing: '2px', color: '#888', textTransform: 'uppercase' as const, margin: '15px 0 8px' };
+const swatchStyle = { width: '26px', height: '22px', padding: 0, border: '1px solid rgba(255, 215, 0, 0.3)', background: 'none', cursor: 'pointer' };
+
+type Counts = QualityPreset['counts'];
+type SingleColor = { [K in keyof TreeColors]: TreeColors[K] extends string ? K : never }[keyof TreeColors];
+type PaletteColor = Exclude<keyof TreeColors, SingleColor>;
+
+const SINGLE_COLORS: SingleColor[] = ['emerald', 'gold', 'silver', 'red', 'green', 'white', 'warmLight'];
+const PALETTES: PaletteColor[] = ['lights', 'borders', 'giftColors', 'candyColors'];
+const COUNT_RANGES: Record<keyof Counts, [number, number, number]> = {
+  foliage: [1000, 60000, 1000], ornaments: [10, 1500, 10], elements: [10, 1000, 10], lights: [10, 2000, 10]
+};
+const LAYERS = ['snow', 'ground', 'gifts'] as const;
+const EFFECT_STEPS: Record<keyof TreeEffects, number> = { bloomIntensity: 0.1, bloomThreshold: 0.01, vignetteDarkness: 0.05 };
+
+// 带数值显示的滑块
+const Slider = ({ label, value, min, max, step, onChange }: { label: string, value: number, min: number, max: number, step: number, onChange: (value: number) => void }) => (
+  <label style={{ display: 'grid', gridTemplateColumns: '110px 1fr 50px', alignItems: 'center', gap: '8px', fontSize: '11px', color: '#888', marginBottom: '6px' }}>
+    {label}
+    <input type="range" min={min} max={max} step={step} value={value} onChange={e => onChange(Number(e.target.value))} style={{ accentColor: '#FFD700' }} />
+    <span style={{ textAlign: 'right', color: '#FFD700' }}>{value}</span>
+  </label>
+);
+
+type SettingsPanelProps = {
+  treeConfig: TreeConfigStore,
+  /** 当前实际使用的数量 (没有单独设置时来自画质档位) */
+  counts: Counts,
+  environment: EnvironmentStore,
+  onExport: () => void,
+  onClose: () => void
+};
+
+// --- Settings Panel: 主题 / 颜色 / 尺寸 / 数量 / 后期效果 / 环境，以及分享 / 导入 / 导出 ---
+// 所有修改立即生效，树会平滑地过渡到新的布局
+export default function SettingsPanel({ treeConfig, counts, environment, onExport, onClose }: SettingsPanelProps) {
+  const { config, update } = treeConfig;
+  const scene = environment.settings;
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [message, setMessage] = useState<{ text: string, error: boolean } | null>(null);
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      await treeConfig.importFile(file);
+      setMessage({ text: `Loaded ${file.name}`, error: false });
+    } catch (err) {
+      setMessage({ text: (err as Error).message, error: true });
+    }
+  };
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(treeConfig.shareUrl);
+      setMessage({ text: 'Link copied (photos are not included in links)', error: false });
+    } catch {
+      setMessage({ text: 'Could not access the clipboard, copy the link below instead', error: true });
+    }
+  };
+
+  return (
+    <div role="dialog" aria-label="Tree settings" style={{ position: 'absolute', top: 0, right: 0, bottom: 0, width: '340px', zIndex: 20, background: 'rgba(0,0,0,0.85)', borderLeft: '1px solid rgba(255, 215, 0, 0.3)', backdropFilter: 'blur(6px)', color: '#FFD700', fontFamily: 'sans-serif', display: 'flex', flexDirection: 'column', padding: '20px', boxSizing: 'border-box', overflowY: 'auto' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '15px' }}>
+        <span style={{ fontSize: '12px', letterSpacing: '3px', textTransform: 'uppercase' }}>My Tree</span>
+        <button onClick={onClose} style={iconStyle} aria-label="Close settings">✕</button>
+      </div>
+
+      <p style={{ ...sectionStyle, marginTop: 0 }}>Theme</p>
+      <div style={{ display: 'flex', gap: '6px', flexWrap: 'wrap' }}>
+        {Object.keys(THEMES).map(name => (
+          <button key={name} onClick={() => { const { colors, effects } = themeConfig(config, name); update({ colors, effects }); }} style={buttonStyle}>{name}</button>
+        ))}
+      </div>
+
+      <p style={sectionStyle}>Colors</p>
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '6px' }}>
+        {SINGLE_COLORS.map(key => (
+          <label key={key} style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '11px', color: '#888' }}>
+            <input type="color" value={config.colors[key]} onChange={e => update({ colors: { ...config.colors, [key]: e.target.value.toUpperCase() } })} style={swatchStyle} />
+            {key}
+          </label>
+        ))}
+      </div>
+      {PALETTES.map(key => (
+        <div key={key} style={{ display: 'flex', alignItems: 'center', gap: '4px', fontSize: '11px', color: '#888', marginTop: '6px' }}>
+          <span style={{ width: '80px' }}>{key}</span>
+          {config.colors[key].map((color, i) => (
+            <input key={i} type="color" value={color} aria-label={`${key} ${i + 1}`} style={swatchStyle}
+              onChange={e => update({ colors: { ...config.colors, [key]: config.colors[key].map((c, k) => k === i ? e.target.value.toUpperCase() : c) } })} />
+          ))}
+        </div>
+      ))}
+
+      <p style={sectionStyle}>Tree</p>
+      <Slider label="height" value={config.tree.height} min={LIMITS.height[0]} max={LIMITS.height[1]} step={0.5} onChange={height => update({ tree: { ...config.tree, height } })} />
+      <Slider label="radius" value={config.tree.radius} min={LIMITS.radius[0]} max={LIMITS.radius[1]} step={0.5} onChange={radius => update({ tree: { ...config.tree, radius } })} />
+
+      <p style={{ ...sectionStyle, display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        Counts {config.counts ? '' : '(from quality)'}
+        {config.counts && <button onClick={() => update({ counts: null })} style={{ ...iconStyle, fontSize: '10px' }}>Use quality</button>}
+      </p>
+      {(Object.keys(COUNT_RANGES) as (keyof Counts)[]).map(key => {
+        const [min, max, step] = COUNT_RANGES[key];
+        return <Slider key={key} label={key} value={counts[key]} min={min} max={max} step={step} onChange={value => update({ counts: { ...counts, [key]: value } })} />;
+      })}
+
+      <p style={sectionStyle}>Effects</p>
+      {(Object.keys(EFFECT_STEPS) as (keyof TreeEffects)[]).map(key => (
+        <Slider key={key} label={key} value={config.effects[key]} min={LIMITS[key][0]} max={LIMITS[key][1]} step={EFFECT_STEPS[key]} onChange={value => update({ effects: { ...config.effects, [key]: value } })} />
+      ))}
+
+      <p style={sectionStyle}>Scene</p>
+      <div style={{ display: 'flex', gap: '6px', flexWrap: 'wrap', marginBottom: '8px' }}>
+        {BACKDROP_TYPES.map(type => (
+          <button key={type} onClick={() => environment.update({ backdrop: type })} style={{ ...buttonStyle, backgroundColor: scene.backdrop === type ? '#FFD700' : buttonStyle.backgroundColor, color: scene.backdrop === type ? '#000' : buttonStyle.color }}>{type}</button>
+        ))}
+      </div>
+      <div style={{ display: 'flex', gap: '14px', marginBottom: '8px' }}>
+        {LAYERS.map(layer => (
+          <label key={layer} style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '11px', color: '#888' }}>
+            <input type="checkbox" checked={scene[layer]} onChange={e => environment.update({ [layer]: e.target.checked })} />
+            {layer}
+          </label>
+        ))}
+      </div>
+      <Slider label="wind" value={scene.wind} min={0} max={6} step={0.1} onChange={wind => environment.update({ wind })} />
+
+      <p style={sectionStyle}>Share</p>
+      <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap', marginBottom: '10px' }}>
+        <button onClick={copyLink} style={buttonStyle}>Copy Link</button>
+        <button onClick={onExport} style={buttonStyle}>Export JSON</button>
+        <button onClick={() => importInputRef.current?.click()} style={buttonStyle}>Import JSON</button>
+        <input ref={importInputRef} type="file" accept="application/json,.json" hidden onChange={handleImport} />
+      </div>
+      <input readOnly value={treeConfig.shareUrl} onFocus={e => e.target.select()} aria-label="Share link" style={{ ...buttonStyle, cursor: 'text', fontSize: '10px', color: '#888', marginBottom: '10px' }} />
+      {message && <div style={{ fontSize: '11px', color: message.error ? '#D32F2F' : '#888', whiteSpace: 'pre-line' }}>{message.text}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+import type { ButtonHTMLAttributes } from 'react';
+
+const toolbarStyle = { padding: '12px 15px', border: '1px solid #FFD700', fontFamily: 'sans-serif', fontSize: '12px', fontWeight: 'bold' as const, cursor: 'pointer', backdropFilter: 'blur(4px)', textTransform: 'uppercase' as const };
+
+type ToolbarButtonProps = ButtonHTMLAttributes<HTMLButtonElement> & {
+  /** 开关类按钮：打开时反色并设置 aria-pressed；不传表示普通按钮 */
+  active?: boolean
+};
+
+// --- Toolbar Button: 右下角工具栏的按钮 ---
+export default function ToolbarButton({ active, style, ...props }: ToolbarButtonProps) {
+  return (
+    <button aria-pressed={active} {...props}
+      style={{ ...toolbarStyle, backgroundColor: active ? '#FFD700' : 'rgba(0,0,0,0.5)', color: active ? '#000' : '#FFD700', ...style }} />
+  );
+}
@@ -0,0 +1,43 @@
+import { createContext, useCallback, useContext, useEffect, useRef, useState, useSyncExternalStore, type CSSProperties } from 'react';
+import { CONFIG } from './config';
+
+// --- Accessibility ---
+// 减少动态效果：系统设置了 prefers-reduced-motion 时，各组件把晃动 / 翻滚 / 闪烁乘以 motion (见 CONFIG.controls.reducedMotion)
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+const subscribeReducedMotion = (listener: () => void) => {
+  const query = window.matchMedia(REDUCED_MOTION_QUERY);
+  query.addEventListener('change', listener);
+  return () => query.removeEventListener('change', listener);
+};
+
+export const useReducedMotion = () => useSyncExternalStore(subscribeReducedMotion, () => window.matchMedia(REDUCED_MOTION_QUERY).matches);
+
+/** 动画幅度的比例：1 为正常，减少动态效果时为 CONFIG.controls.reducedMotion */
+export const MotionContext = createContext(1);
+
+export const useMotion = () => useContext(MotionContext);
+
+export const motionScale = (reduced: boolean) => reduced ? CONFIG.controls.reducedMotion : 1;
+
+// --- 屏幕阅读器播报 ---
+// 视觉上隐藏，但仍会被屏幕阅读器读出
+export const visuallyHidden: CSSProperties = { position: 'absolute', width: '1px', height: '1px', margin: '-1px', padding: 0, overflow: 'hidden', clip: 'rect(0 0 0 0)', whiteSpace: 'nowrap', border: 0 };
+
+// 内容写入 aria-live 区域；连续两次相同的内容时加一个零宽空格，保证会再读一遍
+export const useAnnouncer = () => {
+  const [message, setMessage] = useState('');
+  const announce = useCallback((text: string) => setMessage(current => current === text ? `${text}\u200B` : text), []);
+  return { message, announce };
+};
+
+/** value 变化时播报 describe(value) 的结果 (第一次渲染不播报，返回 null 不播报) */
+export const useAnnounceChange = <T,>(value: T, announce: (text: string) => void, describe: (value: T) => string | null) => {
+  const previous = useRef(value);
+  useEffect(() => {
+    if (Object.is(previous.current, value)) return;
+    previous.current = value;
+    const text = describe(value);
+    if (text) announce(text);
+  }, [value, announce, describe]);
+};
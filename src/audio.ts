@@ -0,0 +1,209 @@
+import { createContext, useContext, useEffect, useSyncExternalStore } from 'react';
+import { CONFIG } from './config';
+import { createBeatDetector, type AudioLevels } from './lightShow';
+
+// --- Audio ---
+// 背景音乐播放列表 + 合成音效，共用一个 AudioContext；音乐同时接到分析器上驱动彩灯
+export type SoundEffect = 'whoosh' | 'chimes' | 'shutter' | 'tick';
+
+export interface Track { name: string; src: string }
+
+export interface AudioState {
+  tracks: Track[];
+  index: number;
+  playing: boolean;
+  volume: number;
+  muted: boolean;
+  /** 用户操作过页面之后才能发声 (浏览器的自动播放限制) */
+  unlocked: boolean;
+}
+
+const AUDIO_KEY = 'christmas-tree:audio';
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+const readPrefs = () => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(AUDIO_KEY) ?? 'null');
+    if (stored && typeof stored.volume === 'number') return { volume: clamp01(stored.volume), muted: !!stored.muted };
+  } catch { /* 损坏的设置直接忽略 */ }
+  return { volume: CONFIG.audio.volume, muted: false };
+};
+
+const trackName = (src: string) => decodeURIComponent(src.split('/').pop() ?? src).replace(/\.[^.]+$/, '');
+
+// --- 合成音效 (不需要音频文件) ---
+const noise = (context: BaseAudioContext, seconds: number) => {
+  const buffer = context.createBuffer(1, Math.ceil(context.sampleRate * seconds), context.sampleRate);
+  const data = buffer.getChannelData(0);
+  for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+  const source = context.createBufferSource(); source.buffer = buffer;
+  return source;
+};
+
+// 指数包络：attack 秒升到 peak，再用 release 秒衰减
+const envelope = (context: BaseAudioContext, at: number, peak: number, attack: number, release: number) => {
+  const gain = context.createGain();
+  gain.gain.setValueAtTime(0.0001, at);
+  gain.gain.exponentialRampToValueAtTime(peak, at + attack);
+  gain.gain.exponentialRampToValueAtTime(0.0001, at + attack + release);
+  return gain;
+};
+
+const SYNTHS: Record<SoundEffect, (context: BaseAudioContext, out: AudioNode, at: number) => void> = {
+  // 带通滤波的噪声，中心频率先升后降
+  whoosh: (context, out, at) => {
+    const source = noise(context, 1.3);
+    const filter = context.createBiquadFilter(); filter.type = 'bandpass'; filter.Q.value = 1.2;
+    filter.frequency.setValueAtTime(250, at);
+    filter.frequency.exponentialRampToValueAtTime(2800, at + 0.45);
+    filter.frequency.exponentialRampToValueAtTime(400, at + 1.2);
+    source.connect(filter).connect(envelope(context, at, 0.8, 0.35, 0.9)).connect(out);
+    source.start(at); source.stop(at + 1.3);
+  },
+  // 五声音阶上行的铃声，每个音带一个泛音
+  chimes: (context, out, at) => {
+    [1318.5, 1568, 1760, 2093, 2637].forEach((frequency, i) => {
+      const start = at + i * 0.11;
+      for (const [ratio, peak] of [[1, 0.25], [2.76, 0.06]]) {
+        const osc = context.createOscillator(); osc.frequency.value = frequency * ratio;
+        osc.connect(envelope(context, start, peak, 0.005, 1.6)).connect(out);
+        osc.start(start); osc.stop(start + 1.7);
+      }
+    });
+  },
+  // 快门：两下很短的高频噪声
+  shutter: (context, out, at) => {
+    for (const offset of [0, 0.07]) {
+      const source = noise(context, 0.06);
+      const filter = context.createBiquadFilter(); filter.type = 'highpass'; filter.frequency.value = 1800;
+      source.connect(filter).connect(envelope(context, at + offset, 0.7, 0.002, 0.05)).connect(out);
+      source.start(at + offset);
+    }
+  },
+  // 识别到手势时的提示音
+  tick: (context, out, at) => {
+    const osc = context.createOscillator(); osc.type = 'triangle'; osc.frequency.value = 1046.5;
+    osc.connect(envelope(context, at, 0.2, 0.004, 0.08)).connect(out);
+    osc.start(at); osc.stop(at + 0.1);
+  }
+};
+
+export const createAudioEngine = () => {
+  let state: AudioState = {
+    tracks: CONFIG.audio.playlist.map(src => ({ name: trackName(src), src })),
+    index: 0, playing: false, ...readPrefs(), unlocked: false
+  };
+  const listeners = new Set<() => void>();
+  const set = (patch: Partial<AudioState>) => { state = { ...state, ...patch }; listeners.forEach(listener => listener()); };
+
+  const levels: AudioLevels = { level: 0, beat: 0 };
+  const music = new Audio();
+  let context: AudioContext | null = null;
+  let master: GainNode | null = null;
+  let effects: GainNode | null = null;
+  let detect: ((levels: AudioLevels, now: number) => void) | null = null;
+  let frame = 0;
+  let objectUrls: string[] = [];
+
+  const applyVolume = () => {
+    if (master) master.gain.value = state.muted ? 0 : state.volume;
+    localStorage.setItem(AUDIO_KEY, JSON.stringify({ volume: state.volume, muted: state.muted }));
+  };
+
+  // 必须在用户操作 (点击 / 按键) 的回调里调用
+  const unlock = () => {
+    if (!context) {
+      context = new AudioContext();
+      master = context.createGain(); master.connect(context.destination);
+      effects = context.createGain(); effects.gain.value = CONFIG.audio.effects; effects.connect(master);
+      const analyser = context.createAnalyser(); analyser.fftSize = 512;
+      context.createMediaElementSource(music).connect(analyser);
+      analyser.connect(master);
+      detect = createBeatDetector(analyser);
+      applyVolume();
+    }
+    if (context.state === 'suspended') context.resume();
+    if (!state.unlocked) set({ unlocked: true });
+  };
+
+  // 播放音乐时每帧分析一次音量 / 鼓点
+  const analyse = (now: number) => { detect?.(levels, now); frame = requestAnimationFrame(analyse); };
+
+  const pause = () => {
+    music.pause();
+    cancelAnimationFrame(frame);
+    levels.level = 0; levels.beat = 0;
+    set({ playing: false });
+  };
+
+  const play = () => {
+    const track = state.tracks[state.index]; if (!track) return;
+    unlock();
+    if (music.src !== new URL(track.src, location.href).href) music.src = track.src;
+    music.play().then(() => {
+      cancelAnimationFrame(frame); frame = requestAnimationFrame(analyse);
+      set({ playing: true });
+    }).catch(err => { console.warn('[audio] playback failed', err); pause(); });
+  };
+
+  const select = (index: number) => {
+    const count = state.tracks.length; if (count === 0) return;
+    set({ index: (index + count) % count });
+    music.src = state.tracks[state.index].src;
+    if (state.playing) play();
+  };
+
+  music.addEventListener('ended', () => select(state.index + 1));
+
+  return {
+    get: () => state,
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+    /** 音乐的音量 / 鼓点，暂停时为 0 */
+    levels,
+    unlock,
+    /** 未解锁时直接忽略，不会排队到之后再响 */
+    effect: (name: SoundEffect) => {
+      if (!context || !effects || context.state !== 'running') return;
+      SYNTHS[name](context, effects, context.currentTime);
+    },
+    // 选择的本地文件替换当前播放列表并从第一首开始播放
+    loadFiles: (files: File[]) => {
+      if (files.length === 0) return;
+      objectUrls.forEach(url => URL.revokeObjectURL(url));
+      objectUrls = files.map(file => URL.createObjectURL(file));
+      music.removeAttribute('src');
+      set({ tracks: files.map((file, i) => ({ name: trackName(file.name), src: objectUrls[i] })), index: 0 });
+      play();
+    },
+    play, pause,
+    toggle: () => { if (state.playing) pause(); else play(); },
+    next: () => select(state.index + 1),
+    prev: () => select(state.index - 1),
+    setVolume: (volume: number) => { set({ volume: clamp01(volume), muted: false }); applyVolume(); },
+    toggleMute: () => { set({ muted: !state.muted }); applyVolume(); }
+  };
+};
+
+export type AudioEngine = ReturnType<typeof createAudioEngine>;
+
+// --- React 绑定 ---
+export const SoundContext = createContext<AudioEngine | null>(null);
+
+export const useSound = () => {
+  const sound = useContext(SoundContext);
+  if (!sound) throw new Error('useSound must be used inside <SoundContext.Provider>');
+  return sound;
+};
+
+export const useAudioState = (sound: AudioEngine) => useSyncExternalStore(sound.subscribe, sound.get);
+
+// 浏览器只允许在用户操作之后发声：第一次点击 / 触摸 / 按键时解锁
+export const useAudioUnlock = (sound: AudioEngine) => useEffect(() => {
+  const events = ['pointerdown', 'keydown', 'touchstart'];
+  const unlock = () => { sound.unlock(); events.forEach(name => window.removeEventListener(name, unlock)); };
+  events.forEach(name => window.addEventListener(name, unlock));
+  return () => events.forEach(name => window.removeEventListener(name, unlock));
+}, [sound]);
@@ -0,0 +1,70 @@
+import { CONFIG } from './config';
+
+// --- Capture: 截图 / 录像 ---
+// 渲染部分 (改分辨率、逐帧推进) 在 Canvas 内的 CaptureBridge 中完成，这里只负责合成图片和保存文件
+
+/** 由 CaptureBridge 写入，App 中的截图 / 录像按钮调用 */
+export interface CaptureApi {
+  /** 以 width x height 渲染一帧 (包含后期效果)，返回它的副本 */
+  snapshot: (width: number, height: number) => Promise<HTMLCanvasElement>;
+  /** 固定步长录制一段 散开 -> 聚合 + 环绕镜头 的视频 */
+  record: (options: RecordOptions) => Promise<Blob>;
+}
+
+export interface RecordOptions {
+  width: number;
+  height: number;
+  fps: number;
+  /** 聚合完成后继续环绕拍摄的秒数 */
+  hold: number;
+  onProgress?: (progress: number) => void;
+}
+
+export interface Overlay {
+  caption: string;
+  watermark: boolean;
+}
+
+// 在截图上叠加说明文字 (底部居中) 和水印 (右下角)，字号按图片高度缩放
+export const composeImage = (source: HTMLCanvasElement, { caption, watermark }: Overlay) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = source.width; canvas.height = source.height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(source, 0, 0);
+  const unit = canvas.height / 1080;
+  ctx.textBaseline = 'bottom';
+  if (caption) {
+    ctx.font = `italic ${Math.round(56 * unit)}px serif`;
+    ctx.textAlign = 'center';
+    ctx.fillStyle = CONFIG.colors.gold;
+    ctx.shadowColor = 'rgba(0,0,0,0.8)'; ctx.shadowBlur = 12 * unit;
+    ctx.fillText(caption, canvas.width / 2, canvas.height - 70 * unit);
+  }
+  if (watermark && CONFIG.capture.watermark) {
+    ctx.font = `${Math.round(20 * unit)}px sans-serif`;
+    ctx.textAlign = 'right';
+    ctx.fillStyle = 'rgba(255, 215, 0, 0.6)';
+    ctx.shadowColor = 'rgba(0,0,0,0.8)'; ctx.shadowBlur = 6 * unit;
+    ctx.fillText(CONFIG.capture.watermark, canvas.width - 30 * unit, canvas.height - 24 * unit);
+  }
+  return new Promise<Blob>((resolve, reject) => canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('PNG encoding failed')), 'image/png'));
+};
+
+// 浏览器支持的 WebM 编码 (Safari 不支持 WebM 时返回 null)
+export const pickVideoType = () =>
+  ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'].find(type => typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(type)) ?? null;
+
+export const downloadBlob = (blob: Blob, extension: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `christmas-tree-${new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-')}.${extension}`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/** 等待若干个浏览器帧，让 React / 后期效果处理完尺寸变化 */
+export const nextFrames = (count: number) => new Promise<void>(resolve => {
+  const step = () => (--count <= 0 ? resolve() : requestAnimationFrame(step));
+  requestAnimationFrame(step);
+});
@@ -0,0 +1,172 @@
+import type { TourOrder } from './tour';
+import type { ShapeSpec, ShapeType } from './shapes';
+import type { GestureAction, GestureName } from './gestures';
+import type { ModeSpec, SceneMode } from './sceneState';
+import type { QualityPreset, QualitySetting, QualityTier } from './quality';
+import type { TopperType } from './toppers';
+import type { LightPattern } from './lightPatterns';
+import type { BackdropType } from './environment';
+import type { CountdownTarget, ScheduleEntry } from './schedule';
+
+// --- 视觉配置 ---
+export const CONFIG = {
+  colors: {
+    emerald: '#004225', // 纯正祖母绿
+    gold: '#FFD700',
+    silver: '#ECEFF1',
+    red: '#D32F2F',
+    green: '#2E7D32',
+    white: '#FFFFFF',   // 纯白色
+    warmLight: '#FFD54F',
+    lights: ['#FF0000', '#00FF00', '#0000FF', '#FFFF00'], // 彩灯
+    // 拍立得边框颜色池 (复古柔和色系)
+    borders: ['#FFFAF0', '#F0E68C', '#E6E6FA', '#FFB6C1', '#98FB98', '#87CEFA', '#FFDAB9'],
+    // 圣诞元素颜色
+    giftColors: ['#D32F2F', '#FFD700', '#1976D2', '#2E7D32'],
+    candyColors: ['#FF0000', '#FFFFFF']
+  },
+  // 画质档位：粒子数量、像素比、后期效果；auto 根据帧时间自动升降档 (页面上的 ⚙ 按钮可以手动选择)
+  quality: {
+    setting: 'auto' as QualitySetting,
+    autoStart: 'high' as QualityTier, // auto 模式的起始档位
+    tiers: {
+      low:    { counts: { foliage: 5000,  ornaments: 120,  elements: 80,  lights: 150 },  dpr: [1, 1],   postprocessing: 'none',  sparkles: 150,  stars: 1500, snow: 1500,  environment: false },
+      medium: { counts: { foliage: 10000, ornaments: 200,  elements: 140, lights: 280 },  dpr: [1, 1.5], postprocessing: 'bloom', sparkles: 300,  stars: 3000, snow: 3000,  environment: true },
+      high:   { counts: { foliage: 15000, ornaments: 300,  elements: 200, lights: 400 },  dpr: [1, 2],   postprocessing: 'full',  sparkles: 600,  stars: 5000, snow: 5000,  environment: true },
+      ultra:  { counts: { foliage: 40000, ornaments: 1000, elements: 600, lights: 1200 }, dpr: [1, 2],   postprocessing: 'full',  sparkles: 1500, stars: 8000, snow: 12000, environment: true }
+    } as Record<QualityTier, QualityPreset>
+  },
+  tree: { height: 22, radius: 9 }, // 树体尺寸
+  // 后期效果 (画质为 low 时关闭)；也可以在页面上的 🎄 TREE 面板中调整
+  effects: { bloom: { intensity: 1.5, threshold: 0.8 }, vignette: { darkness: 1.2 } },
+  // 环境：背景 (night 夜空 | fireplace 壁炉房间 | aurora 极光) 和各图层的默认开关，也可以在 🎄 TREE 面板中切换
+  // snow: 下落速度 / 风力 / 风向 (弧度) / 覆盖范围 / 高度 (雪花数量见画质档位)；ground: 雪地半径；gifts: 树下礼物的数量
+  environment: {
+    backdrop: 'night' as BackdropType,
+    layers: { snow: true, ground: true, gifts: true },
+    snow: { speed: 3, wind: 1.5, windAngle: 0.4, area: 110, height: 70, size: 1 },
+    ground: { radius: 45 },
+    gifts: { count: 14 }
+  },
+  // 树的形状，可以在页面上点击 ✦ 按钮切换
+  shape: 'cone' as ShapeType,
+  shapes: {
+    cone: { type: 'cone' },
+    tiered: { type: 'tiered', tiers: 5 },   // 分层冷杉
+    spiral: { type: 'spiral', turns: 5 },   // 螺旋
+    heart: { type: 'heart' },
+    text: { type: 'text', text: '2026' },   // 任意文字
+    image: { type: 'image', src: `${import.meta.env.BASE_URL}shapes/snowman.svg` } // 透明背景图片的剪影
+  } as Record<ShapeType, ShapeSpec>,
+  // 彩灯：灯串数量 / 每条绕树的圈数 / 默认灯光效果 (classic | chase | twinkle | waves | warmWhite | countdown | fireworks)
+  lightShow: { strings: 3, turns: 7, pattern: 'classic' as LightPattern },
+  // 声音：音乐和音效的音量 (0..1)；playlist 为默认播放列表 (例如 public/music 下的文件地址)，也可以在页面上选择本地文件
+  audio: { volume: 0.6, effects: 0.8, playlist: [] as string[] },
+  // 截图 / 录像：截图分辨率、水印文字 (空字符串表示不加)，录像的分辨率 / 帧率 / 码率 / 聚合后继续环绕的秒数
+  capture: {
+    resolutions: { '1080p': [1920, 1080], '1440p': [2560, 1440], '4K': [3840, 2160] } as Record<string, [number, number]>,
+    watermark: 'Merry Christmas 🎄',
+    video: { size: [1920, 1080] as [number, number], fps: 30, bitrate: 12_000_000, hold: 4, turntable: 0.35 }
+  },
+  // 树顶装饰：star | angel | bow | snowflake | svg (也可以在相册面板中切换、上传 SVG)
+  topper: {
+    type: 'star' as TopperType,
+    svg: null as string | null, // type 为 svg 时默认使用的 SVG 地址
+    hero: 'top' as string | null, // 树顶照片：public/photos 中文件名 (不含扩展名) 相同的照片，null 表示不显示
+    heroPlacement: 'inset' as 'inset' | 'front' // inset: 嵌在装饰中间  front: 装进相框挂在装饰前面
+  },
+  // 布局随机种子：相同的种子总是生成同一棵树；null 表示每次随机 (也可以用 URL 参数 ?seed=xxx 指定)
+  seed: null as number | string | null,
+  // 场景状态机：每个状态的过渡时间 / 缓动，then 表示过渡结束后自动进入的状态
+  scene: {
+    initial: 'CHAOS' as SceneMode,
+    modes: {
+      CHAOS: { duration: 2.5, easing: 'easeInOutCubic' },
+      FORMED: { duration: 2.5, easing: 'easeInOutCubic' },
+      EXPLODING: { duration: 1.2, easing: 'easeOutExpo', then: 'CHAOS' },        // 向外炸开
+      SPIRAL_ASSEMBLE: { duration: 4, easing: 'easeInOutCubic', then: 'FORMED' }, // 从下往上盘旋聚合
+      GALLERY: { duration: 2, easing: 'easeInOutCubic' },                          // 照片排成一面墙
+      SNOWGLOBE: { duration: 2.5, easing: 'easeInOutCubic' }                       // 装进水晶球
+    } as Record<SceneMode, ModeSpec>,
+    // 按钮 / 手势的 "聚合" 和 "散开" 进入哪个状态
+    assemble: 'SPIRAL_ASSEMBLE' as SceneMode,
+    disperse: 'EXPLODING' as SceneMode,
+    gallery: { max: 40, scale: 3, spacing: 4.2 } // 照片墙最多显示的照片数 / 尺寸 / 间距
+  },
+  gestures: {
+    // 手势 -> 动作映射；zoomIn / zoomOut 在手势保持期间持续生效，其余动作只触发一次
+    actions: {
+      None: 'none',
+      Open_Palm: 'disperse',
+      Closed_Fist: 'assemble',
+      Pointing_Up: 'nextPhoto',
+      Victory: 'toggleTour',
+      Thumb_Up: 'zoomIn',
+      Thumb_Down: 'zoomOut',
+      ILoveYou: 'toggleLights'
+    } as Record<GestureName, GestureAction>,
+    // 回差：分数超过 enterScore 且连续 holdFrames 帧才切换手势，低于 exitScore 才算消失
+    smoothing: { enterScore: 0.6, exitScore: 0.4, holdFrames: 4 },
+    pinchZoom: true, // 拇指和食指张开的距离控制缩放
+    // 最多同时识别的手数；两只手时的组合手势见 createTwoHandInterpreter
+    numHands: 2,
+    twoHands: {
+      spreadDistance: 0.15, // 两只手掌再分开多少 (画面宽度的比例) 触发更大范围的爆炸
+      fistDistance: 0.12,   // 两只拳头靠近到多近触发聚合
+      maxSpread: 2.2        // 爆炸范围倍数的上限 (分得越开炸得越远)
+    },
+    // wasm 和模型的目录 (<assetBase>/wasm/*, <assetBase>/gesture_recognizer.task)，默认由本站提供，可用 VITE_MEDIAPIPE_BASE 指向 CDN
+    assetBase: (import.meta.env.VITE_MEDIAPIPE_BASE as string | undefined) ?? `${import.meta.env.BASE_URL}mediapipe`,
+    // <assetBase> 下没有模型文件时改从这里加载 (需要联网)；默认关闭，构建时必须带上模型。
+    // 需要时设置 VITE_MEDIAPIPE_MODEL_FALLBACK，例如 https://storage.googleapis.com/mediapipe-models/gesture_recognizer/gesture_recognizer/float16/1/gesture_recognizer.task
+    modelFallback: (import.meta.env.VITE_MEDIAPIPE_MODEL_FALLBACK as string | undefined) ?? null,
+    // GPU 初始化失败 (没有 WebGL2 等) 时会自动退回 CPU
+    delegate: 'GPU' as 'GPU' | 'CPU'
+  },
+  // 键盘 / 触摸 / 无障碍
+  controls: {
+    camera: false,       // true: 打开页面就请求摄像头；false: 点击 🖐 CAMERA 或按 C 之后才开启手势识别
+    orbitStep: 0.15,     // 每按一次方向键旋转的角度 (弧度)
+    zoomStep: 0.15,      // 每按一次 + / - 的缩放量
+    doubleTap: 300,      // 双击的最大间隔 (毫秒)
+    reducedMotion: 0.25  // 系统开启 "减少动态效果" 时，晃动 / 翻滚 / 闪烁的幅度和速度按这个比例缩小
+  },
+  // 倒计时和日程 (本地时间)；地址后加 ?clock=2026-12-24T23:59:50 可以从指定的时刻开始预览
+  schedule: {
+    countdown: true, // 在页面顶部显示到下一个目标的倒计时
+    targets: [
+      { label: 'Christmas', at: '12-25T00:00', message: 'Merry Christmas!' }, // 'MM-DDTHH:mm' 每年一次，写完整日期则只有一次
+      { label: 'New Year', at: '01-01T00:00', message: 'Happy New Year!' }
+    ] as CountdownTarget[],
+    // 归零时的庆祝：灯效、持续时间 (秒，之后灯效恢复，祝福语也显示这么久)、树炸开的范围
+    celebration: { pattern: 'fireworks' as LightPattern, duration: 60, spread: 1.8 },
+    reveal: 20, // 定时展示的照片在镜头前停留的秒数
+    // every: 'minute' | 'hour' | 'day' 整点；at: 指定时刻；countdown: 相对倒计时目标的秒数
+    events: [
+      { every: 'hour', action: { type: 'assemble' } },
+      { countdown: -10, action: { type: 'lightPattern', pattern: 'countdown' } },
+      { countdown: 0, action: { type: 'celebrate' } },
+      { countdown: 6, action: { type: 'assemble' } },
+      { countdown: 15, action: { type: 'featuredPhoto' } }
+    ] as ScheduleEntry[]
+  },
+  // 遥控 / 多屏同步：局域网内运行 npm run relay，显示端和遥控器 (remote.html) 都连到它
+  remote: {
+    url: null as string | null, // 例如 'ws://192.168.1.20:8787'；也可以用 ?relay=ws://... 指定，只写 ?relay 时连本机
+    port: 8787,                 // 中继的默认端口 (npm run relay -- --port 9000 可以修改)
+    retry: [1000, 10000] as [number, number] // 断线重连的间隔 (毫秒)，从第一个值开始每次翻倍，最长第二个值
+  },
+  tour: {
+    order: 'featured' as TourOrder, // sequential | shuffle | chronological | featured
+    onePerPhoto: true,
+    maxStops: 0,          // 0 = 全部照片
+    travel: 2.5,          // 镜头移动时间 (秒)
+    dwell: 6,             // 每张照片停留时间 (秒)
+    crossfadeInterval: 60, // 每隔多少秒散开再聚合一次，0 = 关闭
+    crossfadeHold: 5
+  },
+  photos: {
+    // 照片列表由构建时扫描 public/photos 生成 (见 plugins/photoManifest.ts)
+    manifest: `${import.meta.env.BASE_URL}photos/manifest.json`
+  }
+};
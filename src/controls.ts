@@ -0,0 +1,99 @@
+import { CONFIG } from './config';
+import type { CameraInput } from './gestures';
+
+// --- Keyboard & Touch Controls ---
+// 按键 / 触摸只产生命令和一次性的镜头位移 (nudge)，由 GrandTreeApp 执行命令、Experience 在 useFrame 中用掉位移
+export type ControlCommand =
+  | { type: 'toggleFormation' }
+  | { type: 'orbit', azimuth: number, polar: number }
+  | { type: 'zoom', amount: number }
+  | { type: 'focusPhoto' }
+  | { type: 'toggleCamera' }
+  | { type: 'exit' };
+
+export const keyCommand = (key: string): ControlCommand | null => {
+  const { orbitStep, zoomStep } = CONFIG.controls;
+  switch (key) {
+    case ' ': return { type: 'toggleFormation' };
+    case 'ArrowLeft': return { type: 'orbit', azimuth: orbitStep, polar: 0 };
+    case 'ArrowRight': return { type: 'orbit', azimuth: -orbitStep, polar: 0 };
+    case 'ArrowUp': return { type: 'orbit', azimuth: 0, polar: -orbitStep };
+    case 'ArrowDown': return { type: 'orbit', azimuth: 0, polar: orbitStep };
+    case '+': case '=': return { type: 'zoom', amount: zoomStep };
+    case '-': case '_': return { type: 'zoom', amount: -zoomStep };
+    case 'Enter': return { type: 'focusPhoto' };
+    case 'c': case 'C': return { type: 'toggleCamera' };
+    case 'Escape': return { type: 'exit' };
+    default: return null;
+  }
+};
+
+/** 焦点在输入框上时按键都留给它；在按钮 / 链接上时只留空格和回车 (触发按钮本身) */
+export const isReservedKey = (target: EventTarget | null, key: string) => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return key !== 'Escape';
+  if (target.tagName === 'BUTTON' || target.tagName === 'A') return key === ' ' || key === 'Enter';
+  return false;
+};
+
+const NUDGE_RATE = 10;
+
+// 一次性的位移在几帧内平滑地用掉：每帧取出剩余量的一部分写入 out
+export const takeNudge = (nudge: CameraInput, delta: number, out: CameraInput) => {
+  const k = Math.min(1, delta * NUDGE_RATE);
+  out.azimuth = nudge.azimuth * k; nudge.azimuth -= out.azimuth;
+  out.polar = nudge.polar * k; nudge.polar -= out.polar;
+  out.zoom = nudge.zoom * k; nudge.zoom -= out.zoom;
+  return out;
+};
+
+// --- 触摸 ---
+// 两指扭转 -> 旋转镜头，双击 -> 聚合 / 散开；两指捏合缩放由 OrbitControls 处理
+export interface TouchPoint { x: number; y: number }
+
+interface TouchGestureHandlers {
+  /** 两指连线转过的角度 (弧度，屏幕上顺时针为正) */
+  onTwist: (radians: number) => void;
+  onDoubleTap: () => void;
+}
+
+const TAP_TIME = 250;
+const TAP_SLOP = 12;
+const DOUBLE_TAP_DISTANCE = 40;
+
+export const createTouchGestures = ({ onTwist, onDoubleTap }: TouchGestureHandlers, now = () => performance.now()) => {
+  let angle: number | null = null;
+  let tap: { time: number, x: number, y: number } | null = null;
+  let lastTap: { time: number, x: number, y: number } | null = null;
+  const lineAngle = ([a, b]: TouchPoint[]) => Math.atan2(b.y - a.y, b.x - a.x);
+
+  return {
+    start: (points: TouchPoint[]) => {
+      angle = points.length === 2 ? lineAngle(points) : null;
+      // 只有单指按下才可能是一次轻触
+      tap = points.length === 1 ? { time: now(), ...points[0] } : null;
+    },
+    move: (points: TouchPoint[]) => {
+      if (tap && (points.length !== 1 || Math.hypot(points[0].x - tap.x, points[0].y - tap.y) > TAP_SLOP)) tap = null;
+      if (points.length !== 2 || angle === null) return;
+      const next = lineAngle(points);
+      let turn = next - angle;
+      if (turn > Math.PI) turn -= Math.PI * 2; if (turn < -Math.PI) turn += Math.PI * 2;
+      angle = next;
+      if (turn !== 0) onTwist(turn);
+    },
+    /** points 为抬起之后仍在屏幕上的手指 */
+    end: (points: TouchPoint[]) => {
+      angle = points.length === 2 ? lineAngle(points) : null;
+      if (!tap || points.length > 0) return;
+      const time = now();
+      if (time - tap.time <= TAP_TIME) {
+        if (lastTap && time - lastTap.time <= CONFIG.controls.doubleTap && Math.hypot(tap.x - lastTap.x, tap.y - lastTap.y) <= DOUBLE_TAP_DISTANCE) {
+          lastTap = null;
+          onDoubleTap();
+        } else lastTap = { time, x: tap.x, y: tap.y };
+      }
+      tap = null;
+    }
+  };
+};
@@ -0,0 +1,46 @@
+import { useCallback, useState } from 'react';
+import { CONFIG } from './config';
+
+// --- Environment Layers ---
+// 背景 + 雪花 / 雪地 / 树下的礼物三个可以单独开关的图层，设置保存在 localStorage
+export type BackdropType = 'night' | 'fireplace' | 'aurora';
+
+export const BACKDROP_TYPES: readonly BackdropType[] = ['night', 'fireplace', 'aurora'];
+
+export interface EnvironmentSettings {
+  backdrop: BackdropType;
+  snow: boolean;
+  ground: boolean;
+  gifts: boolean;
+  /** 风力 (每秒的水平位移)，风向见 CONFIG.environment.snow.windAngle */
+  wind: number;
+}
+
+const ENVIRONMENT_KEY = 'christmas-tree:environment';
+
+const readEnvironment = (): EnvironmentSettings => {
+  const defaults: EnvironmentSettings = { backdrop: CONFIG.environment.backdrop, ...CONFIG.environment.layers, wind: CONFIG.environment.snow.wind };
+  try {
+    const stored = JSON.parse(localStorage.getItem(ENVIRONMENT_KEY) ?? 'null');
+    if (stored && BACKDROP_TYPES.includes(stored.backdrop)) {
+      const flag = (key: 'snow' | 'ground' | 'gifts') => typeof stored[key] === 'boolean' ? stored[key] as boolean : defaults[key];
+      return {
+        backdrop: stored.backdrop, snow: flag('snow'), ground: flag('ground'), gifts: flag('gifts'),
+        wind: typeof stored.wind === 'number' && Number.isFinite(stored.wind) ? stored.wind : defaults.wind
+      };
+    }
+  } catch { /* 损坏的设置直接忽略 */ }
+  return defaults;
+};
+
+export const useEnvironment = () => {
+  const [settings, setSettings] = useState(readEnvironment);
+  const update = useCallback((patch: Partial<EnvironmentSettings>) => setSettings(current => {
+    const next = { ...current, ...patch };
+    localStorage.setItem(ENVIRONMENT_KEY, JSON.stringify(next));
+    return next;
+  }), []);
+  return { settings, update };
+};
+
+export type EnvironmentStore = ReturnType<typeof useEnvironment>;
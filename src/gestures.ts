@@ -0,0 +1,131 @@
+// --- Gesture Vocabulary ---
+// MediaPipe 手势识别器输出的类别
+export type GestureName = 'None' | 'Closed_Fist' | 'Open_Palm' | 'Pointing_Up' | 'Thumb_Down' | 'Thumb_Up' | 'Victory' | 'ILoveYou';
+
+export type GestureAction =
+  | 'none'
+  | 'assemble'
+  | 'disperse'
+  | 'nextPhoto'
+  | 'prevPhoto'
+  | 'toggleLights'
+  | 'zoomIn'
+  | 'zoomOut'
+  | 'toggleTour'
+  | 'nextShape'
+  | 'toggleGallery'
+  | 'toggleSnowglobe'
+  | 'nextLightPattern';
+
+/** 按住期间每帧持续生效的动作，其余动作只在手势出现的那一刻触发一次 */
+export const CONTINUOUS_ACTIONS: readonly GestureAction[] = ['zoomIn', 'zoomOut'];
+
+/** 每帧的镜头速度，由手势写入、由 Experience 在 useFrame 中读取 (避免每帧触发 React 渲染) */
+export interface CameraInput {
+  azimuth: number;
+  polar: number;
+  /** > 0 拉近，< 0 推远 */
+  zoom: number;
+}
+
+export interface SmootherOptions {
+  /** 分数超过 enterScore 才算识别到新手势 */
+  enterScore: number;
+  /** 当前手势的分数低于 exitScore 才算消失 */
+  exitScore: number;
+  /** 新手势需要连续出现的帧数，当前手势也要连续消失这么多帧才会被清除 */
+  holdFrames: number;
+}
+
+// 回差 + 连续帧确认，避免在分数阈值附近来回闪烁
+export const createGestureSmoother = ({ enterScore, exitScore, holdFrames }: SmootherOptions) => {
+  let active: GestureName = 'None';
+  let candidate: GestureName = 'None';
+  let streak = 0;
+  let missing = 0;
+  return (name: GestureName, score: number) => {
+    if (name === active && score >= exitScore) missing = 0; else missing++;
+    if (name !== 'None' && name !== active && score >= enterScore) {
+      streak = name === candidate ? streak + 1 : 1;
+      candidate = name;
+    } else {
+      streak = 0; candidate = 'None';
+    }
+    if (streak >= holdFrames) { active = candidate; streak = 0; missing = 0; }
+    else if (missing >= holdFrames) active = 'None';
+    return active;
+  };
+};
+
+// 指数平滑 + 软死区：手停在中间附近时输出 0，离开死区后从 0 连续增长，不会跳变
+export const createAxisSmoother = (smoothing: number, deadzone: number) => {
+  let value: number | null = null;
+  return {
+    update: (input: number) => {
+      value = value === null ? input : value + (input - value) * smoothing;
+      return Math.abs(value) > deadzone ? value - Math.sign(value) * deadzone : 0;
+    },
+    reset: () => { value = null; }
+  };
+};
+
+// --- Two Hands ---
+// 同时出现两只手 (一个人的双手或两个人) 时：两只手掌张开后分开 -> 更大范围的爆炸，两只拳头碰在一起 -> 聚合，
+// 其余情况镜像画面中右边的手控制旋转、左边的手上下移动控制缩放
+export type HandRole = 'rotate' | 'zoom' | 'explode' | 'assemble';
+
+export interface HandFrame {
+  /** 平滑后的手势 */
+  gesture: GestureName;
+  /** 手腕在原始 (未镜像) 画面中的位置，0..1 */
+  x: number;
+  y: number;
+}
+
+export interface TwoHandOptions {
+  /** 两只手掌比张开时最近的距离再分开这么多 (画面宽度的比例) 才触发爆炸 */
+  spreadDistance: number;
+  /** 两只拳头的距离小于它时触发聚合 */
+  fistDistance: number;
+  /** 爆炸范围倍数的上限 */
+  maxSpread: number;
+}
+
+export type TwoHandAction = { type: 'explode', spread: number } | { type: 'assemble' };
+
+export interface TwoHandResult {
+  /** 这一帧触发的组合动作，同一个姿势只触发一次，换了姿势才会再次触发 */
+  action: TwoHandAction | null;
+  /** 与传入的 hands 顺序一致 */
+  roles: [HandRole, HandRole];
+  rotate: HandFrame | null;
+  zoom: HandFrame | null;
+}
+
+export const createTwoHandInterpreter = ({ spreadDistance, fistDistance, maxSpread }: TwoHandOptions) => {
+  let closest = Infinity;
+  let fired: 'palms' | 'fists' | null = null;
+  return (hands: [HandFrame, HandFrame]): TwoHandResult => {
+    const [a, b] = hands;
+    const distance = Math.hypot(a.x - b.x, a.y - b.y);
+    const pose = a.gesture === 'Open_Palm' && b.gesture === 'Open_Palm' ? 'palms' : a.gesture === 'Closed_Fist' && b.gesture === 'Closed_Fist' ? 'fists' : null;
+    if (pose !== 'palms') closest = Infinity; else closest = Math.min(closest, distance);
+    if (pose !== fired) fired = null;
+
+    let action: TwoHandAction | null = null;
+    if (!fired && pose === 'palms' && distance - closest >= spreadDistance) {
+      fired = pose;
+      action = { type: 'explode', spread: Math.min(maxSpread, 1 + distance * 2) };
+    } else if (!fired && pose === 'fists' && distance <= fistDistance) {
+      fired = pose;
+      action = { type: 'assemble' };
+    }
+    if (pose) {
+      const role = pose === 'palms' ? 'explode' : 'assemble';
+      return { action, roles: [role, role], rotate: null, zoom: null };
+    }
+    // 原始画面中 x 较小的手在镜像画面的右边
+    const rotateFirst = a.x <= b.x;
+    return { action, roles: rotateFirst ? ['rotate', 'zoom'] : ['zoom', 'rotate'], rotate: rotateFirst ? a : b, zoom: rotateFirst ? b : a };
+  };
+};
@@ -0,0 +1,53 @@
+import * as THREE from 'three';
+
+// --- Instanced Materials ---
+// 在 MeshStandardMaterial 的基础上打补丁，让每个实例有自己的贴图区域 / 自发光，保留原有的光照计算
+export interface InstanceMaterialOptions {
+  /** 自发光颜色乘以实例颜色 (setColorAt) */
+  emissiveFromColor?: boolean;
+  /** 每个实例的自发光强度，来自 InstancedBufferAttribute aEmissive */
+  emissiveAttribute?: boolean;
+  /** 每个实例在图集中的区域 (u, v, 宽, 高)，来自 InstancedBufferAttribute aUvRect */
+  uvRect?: boolean;
+}
+
+export const createInstanceMaterial = (parameters: THREE.MeshStandardMaterialParameters, { emissiveFromColor, emissiveAttribute, uvRect }: InstanceMaterialOptions) => {
+  const material = new THREE.MeshStandardMaterial(parameters);
+  material.onBeforeCompile = shader => {
+    let attributes = '';
+    if (emissiveAttribute) attributes += 'attribute float aEmissive; varying float vEmissive;\n';
+    if (uvRect) attributes += 'attribute vec4 aUvRect;\n';
+    shader.vertexShader = shader.vertexShader
+      .replace('#include <common>', `#include <common>\n${attributes}`)
+      .replace('#include <uv_vertex>', `#include <uv_vertex>
+        ${uvRect ? `#ifdef USE_MAP
+          vMapUv = aUvRect.xy + vMapUv * aUvRect.zw;
+        #endif
+        #ifdef USE_EMISSIVEMAP
+          vEmissiveMapUv = aUvRect.xy + vEmissiveMapUv * aUvRect.zw;
+        #endif` : ''}
+        ${emissiveAttribute ? 'vEmissive = aEmissive;' : ''}`);
+    shader.fragmentShader = shader.fragmentShader
+      .replace('#include <common>', `#include <common>\n${emissiveAttribute ? 'varying float vEmissive;' : ''}`)
+      .replace('#include <emissivemap_fragment>', `#include <emissivemap_fragment>
+        ${emissiveFromColor ? 'totalEmissiveRadiance *= vColor;' : ''}
+        ${emissiveAttribute ? 'totalEmissiveRadiance *= vEmissive;' : ''}`);
+  };
+  material.customProgramCacheKey = () => `instance:${!!emissiveFromColor}:${!!emissiveAttribute}:${!!uvRect}`;
+  return material;
+};
+
+// 实例会飞出初始包围球，固定一个足够大的包围球，保证点击 (射线检测) 一直有效
+export const SCENE_BOUNDS = new THREE.Sphere(new THREE.Vector3(), 200);
+
+// 逐帧写矩阵用的临时对象
+export const createInstanceWriter = () => {
+  const dummy = new THREE.Object3D();
+  return {
+    dummy,
+    write: (mesh: THREE.InstancedMesh, index: number) => {
+      dummy.updateMatrix();
+      mesh.setMatrixAt(index, dummy.matrix);
+    }
+  };
+};
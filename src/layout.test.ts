@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { CONFIG } from './config';
+import { createSurfaceTargets, createVolumeTargets } from './layout';
+import { createRng } from './random';
+import { CONE_SHAPE } from './shapes';
+
+const COUNT = 2000;
+const EPSILON = 1e-4;
+
+// 圆锥在高度 y 处的半径
+const coneRadius = (y: number) => {
+  const { height, radius } = CONFIG.tree;
+  return radius * (1 - (y + height / 2) / height);
+};
+
+const expectInsideCone = (x: number, y: number, z: number) => {
+  const { height } = CONFIG.tree;
+  expect(y).toBeGreaterThanOrEqual(-height / 2 - EPSILON);
+  expect(y).toBeLessThanOrEqual(height / 2 + EPSILON);
+  expect(Math.hypot(x, z)).toBeLessThanOrEqual(coneRadius(y) + EPSILON);
+};
+
+describe('createVolumeTargets', () => {
+  it('returns the same positions for the same seed and count', () => {
+    const a = createVolumeTargets(createRng(7, 'foliage'), CONE_SHAPE, COUNT);
+    const b = createVolumeTargets(createRng(7, 'foliage'), CONE_SHAPE, COUNT);
+    expect(a).toHaveLength(COUNT * 3);
+    expect(Array.from(a)).toEqual(Array.from(b));
+  });
+
+  it('changes with the seed', () => {
+    const a = createVolumeTargets(createRng(7, 'foliage'), CONE_SHAPE, COUNT);
+    const b = createVolumeTargets(createRng(8, 'foliage'), CONE_SHAPE, COUNT);
+    expect(Array.from(a)).not.toEqual(Array.from(b));
+  });
+
+  it('keeps every point inside the cone', () => {
+    const targets = createVolumeTargets(createRng('volume'), CONE_SHAPE, COUNT);
+    for (let i = 0; i < COUNT; i++) expectInsideCone(targets[i * 3], targets[i * 3 + 1], targets[i * 3 + 2]);
+  });
+});
+
+describe('createSurfaceTargets', () => {
+  it('returns the same positions for the same seed and count', () => {
+    const a = createSurfaceTargets(createRng(7, 'ornaments'), CONE_SHAPE, COUNT);
+    const b = createSurfaceTargets(createRng(7, 'ornaments'), CONE_SHAPE, COUNT);
+    expect(a).toHaveLength(COUNT);
+    expect(a.map(v => v.toArray())).toEqual(b.map(v => v.toArray()));
+  });
+
+  it('keeps every point on the cone surface', () => {
+    for (const { x, y, z } of createSurfaceTargets(createRng('surface'), CONE_SHAPE, COUNT)) {
+      expectInsideCone(x, y, z);
+      expect(Math.hypot(x, z)).toBeCloseTo(coneRadius(y), 4);
+    }
+  });
+
+  it('pulls points inward with radiusScale', () => {
+    for (const { x, y, z } of createSurfaceTargets(createRng('inner'), CONE_SHAPE, COUNT, 0.8)) {
+      expectInsideCone(x, y, z);
+      expect(Math.hypot(x, z)).toBeCloseTo(coneRadius(y) * 0.8, 4);
+    }
+  });
+});
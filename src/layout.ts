@@ -0,0 +1,126 @@
+import * as THREE from 'three';
+import type { Rng } from './random';
+import type { TreeShape } from './shapes';
+
+// --- Layout Generators (纯函数，相同的 rng 序列得到相同的布局) ---
+
+// 形状内部的目标点 (Foliage)
+export const createVolumeTargets = (rng: Rng, shape: TreeShape, count: number) => {
+  const targets = new Float32Array(count * 3);
+  for (let i = 0; i < count; i++) targets.set(shape.sampleVolume(rng), i * 3);
+  return targets;
+};
+
+// 形状表面上的目标点 (Ornaments / Elements / Lights)
+export const createSurfaceTargets = (rng: Rng, shape: TreeShape, count: number, radiusScale = 1, offset = 0) =>
+  new Array(count).fill(0).map(() => shape.sampleSurface(rng, radiusScale, offset));
+
+// 灯串：strings 条灯串从底部绕到顶部，每条绕 turns 圈，第 i 个灯泡在第 i % strings 条上
+// order 是灯泡在自己那条灯串上的位置 (0..1)；平面形状没有 stringPoint，按高度排序代替
+export const createStringTargets = (rng: Rng, shape: TreeShape, count: number, strings: number, turns: number, offset: number) => {
+  const perString = Math.ceil(count / strings);
+  const order = new Float32Array(count);
+  if (!shape.stringPoint) {
+    const positions = createSurfaceTargets(rng, shape, count, 1, offset).sort((a, b) => a.y - b.y);
+    positions.forEach((_, i) => { order[i] = i / Math.max(count - 1, 1); });
+    return { positions, order };
+  }
+  const positions = new Array(count).fill(0).map((_, i) => {
+    const n = Math.floor(i / strings) / Math.max(perString - 1, 1);
+    order[i] = n;
+    // 沿灯串加一点抖动，看起来像手工挂上去的
+    return shape.stringPoint!(Math.min(1, n + (rng() - 0.5) * 0.01), n * turns * Math.PI * 2 + (i % strings) * Math.PI * 2 / strings, offset);
+  });
+  return { positions, order };
+};
+
+// 散开状态：边长为 spread 的立方体内的随机点
+export const getChaosPosition = (rng: Rng, spread: number) =>
+  new THREE.Vector3((rng()-0.5)*spread, (rng()-0.5)*spread, (rng()-0.5)*spread);
+
+const getRandomEuler = (rng: Rng) => new THREE.Euler(rng()*Math.PI, rng()*Math.PI, rng()*Math.PI);
+const getRotationSpeed = (rng: Rng, scale: number) => ({ x: (rng()-0.5)*scale, y: (rng()-0.5)*scale, z: (rng()-0.5)*scale });
+
+export const createFoliageLayout = (rng: Rng, count: number) => {
+  const positions = new Float32Array(count * 3); const randoms = new Float32Array(count);
+  for (let i = 0; i < count; i++) {
+    // 半径 25 的球内均匀分布
+    const theta = rng() * Math.PI * 2; const phi = Math.acos(2 * rng() - 1); const r = 25 * Math.cbrt(rng());
+    positions[i*3] = r * Math.sin(phi) * Math.cos(theta); positions[i*3+1] = r * Math.sin(phi) * Math.sin(theta); positions[i*3+2] = r * Math.cos(phi);
+    randoms[i] = rng();
+  }
+  return { positions, randoms };
+};
+
+// 雪花：area x height x area 的盒子内均匀分布，y 从地面算起
+export const createSnowLayout = (rng: Rng, count: number, area: number, height: number) => {
+  const positions = new Float32Array(count * 3); const randoms = new Float32Array(count);
+  for (let i = 0; i < count; i++) {
+    positions[i*3] = (rng() - 0.5) * area; positions[i*3+1] = rng() * height; positions[i*3+2] = (rng() - 0.5) * area;
+    randoms[i] = rng();
+  }
+  return { positions, randoms };
+};
+
+// 颜色可以在运行时修改，布局中只保存抽到的随机数 (与 pick 消耗的随机数相同)，渲染时再映射到当前的调色板
+export const paletteColor = (palette: readonly string[], roll: number) => palette[Math.floor(roll * palette.length)];
+
+export const elementColor = (item: { type: number, colorRoll: number }, colors: { giftColors: string[], red: string, white: string }) =>
+  item.type === 2 ? (item.colorRoll > 0.5 ? colors.red : colors.white) : paletteColor(colors.giftColors, item.colorRoll);
+
+/** featured[i] 为 true 的拍立得总是大尺寸 */
+export const createOrnamentLayout = (rng: Rng, featured: boolean[]) => featured.map(isFeatured => {
+  const chaosPos = getChaosPosition(rng, 70);
+  const isBig = rng() < 0.2 || isFeatured;
+  const sizeRoll = rng();
+  const scale = isBig ? 2.2 : 0.8 + sizeRoll * 0.6;
+  const weight = 0.8 + rng() * 1.2;
+  const borderRoll = rng();
+  const rotationSpeed = getRotationSpeed(rng, 1.0);
+  const chaosRotation = getRandomEuler(rng);
+  return {
+    chaosPos,
+    scale,
+    weight,
+    borderRoll,
+    rotationSpeed,
+    chaosRotation,
+    quaternion: new THREE.Quaternion().setFromEuler(chaosRotation),
+    currentScale: scale,
+    currentPos: chaosPos.clone(),
+    startPos: chaosPos.clone(),
+    wobbleOffset: rng() * 10,
+    wobbleSpeed: 0.5 + rng() * 0.5
+  };
+});
+
+export const createElementLayout = (rng: Rng, count: number) => new Array(count).fill(0).map(() => {
+  const chaosPos = getChaosPosition(rng, 60);
+  // 0: 礼物盒  1: 彩球  2: 拐杖糖
+  const type = Math.floor(rng() * 3);
+  const colorRoll = rng();
+  const scale = type === 0 ? 0.8 + rng() * 0.4 : type === 1 ? 0.6 + rng() * 0.4 : 0.7 + rng() * 0.3;
+  const rotationSpeed = getRotationSpeed(rng, 2.0);
+  const chaosRotation = getRandomEuler(rng);
+  return { type, chaosPos, colorRoll, scale, currentPos: chaosPos.clone(), startPos: chaosPos.clone(), chaosRotation, rotation: chaosRotation.clone(), rotationSpeed };
+});
+
+export const createLightLayout = (rng: Rng, count: number) => new Array(count).fill(0).map(() => {
+  const chaosPos = getChaosPosition(rng, 60);
+  const colorRoll = rng();
+  const speed = 2 + rng() * 3;
+  return { chaosPos, colorRoll, speed, currentPos: chaosPos.clone(), startPos: chaosPos.clone(), timeOffset: rng() * 100 };
+});
+
+// 树下的礼物：围着树底摆一圈；distance 是相对树半径的距离，scale 是礼物盒几何体在三个方向上的缩放
+export const createGiftPileLayout = (rng: Rng, count: number) => new Array(count).fill(0).map((_, i) => {
+  const chaosPos = getChaosPosition(rng, 60);
+  const angle = ((i + rng() * 0.6) / count) * Math.PI * 2;
+  const distance = 0.55 + rng() * 0.6;
+  const scale = new THREE.Vector3(1.8 + rng() * 2, 1.2 + rng() * 2, 1.8 + rng() * 2);
+  const yaw = rng() * Math.PI * 2;
+  const colorRoll = rng(); const ribbonRoll = rng();
+  const rotationSpeed = getRotationSpeed(rng, 1.5);
+  const chaosRotation = getRandomEuler(rng);
+  return { chaosPos, angle, distance, scale, yaw, colorRoll, ribbonRoll, rotationSpeed, quaternion: new THREE.Quaternion().setFromEuler(chaosRotation), currentPos: chaosPos.clone(), startPos: chaosPos.clone() };
+});
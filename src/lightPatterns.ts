@@ -0,0 +1,5 @@
+// --- Light Patterns ---
+// 灯光效果的名称，单独放在这里：遥控器页面 (remote.html) 只需要名称，不用加载 three 和效果的实现 (见 lightShow.ts)
+export type LightPattern = 'classic' | 'chase' | 'twinkle' | 'waves' | 'warmWhite' | 'countdown' | 'fireworks';
+
+export const LIGHT_PATTERNS: readonly LightPattern[] = ['classic', 'chase', 'twinkle', 'waves', 'warmWhite', 'countdown', 'fireworks'];
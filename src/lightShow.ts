@@ -0,0 +1,103 @@
+import * as THREE from 'three';
+import type { LightPattern } from './lightPatterns';
+
+// --- Light Show ---
+// 每种灯光效果都是一个纯函数：根据灯泡在灯串上的位置和时间，写出颜色并返回亮度
+
+export interface Bulb {
+  /** 在所在灯串上的位置 0 (底部) .. 1 (顶部) */
+  order: number;
+  /** 在树上的高度 0..1 */
+  height: number;
+  speed: number;
+  timeOffset: number;
+  color: THREE.Color;
+}
+
+/** 由音乐分析器每帧写入，灯光在 useFrame 中读取 */
+export interface AudioLevels {
+  /** 整体音量 0..1 */
+  level: number;
+  /** 鼓点脉冲：检测到鼓点时为 1，之后逐渐衰减 */
+  beat: number;
+}
+
+/** 效果中用到的固定颜色，颜色修改后由彩灯组件重新生成 */
+export interface LightPalette { warm: THREE.Color; gold: THREE.Color }
+
+export const createLightPalette = (colors: { warmLight: string, gold: string }): LightPalette => ({ warm: new THREE.Color(colors.warmLight), gold: new THREE.Color(colors.gold) });
+
+const fract = (x: number) => x - Math.floor(x);
+
+type PatternFn = (bulb: Bulb, time: number, palette: LightPalette, out: THREE.Color) => number;
+
+const PATTERNS: Record<LightPattern, PatternFn> = {
+  // 每个灯泡按自己的频率闪烁
+  classic: (bulb, time, _palette, out) => {
+    out.copy(bulb.color);
+    return 3 + (Math.sin(time * bulb.speed + bulb.timeOffset) + 1) / 2 * 4;
+  },
+  // 四段光沿灯串从下往上追逐，后面拖着渐暗的尾巴
+  chase: (bulb, time, _palette, out) => {
+    out.copy(bulb.color);
+    const tail = (((time * 0.15 - bulb.order) % 0.25) + 0.25) % 0.25 / 0.25;
+    return 0.5 + 8 * Math.pow(1 - tail, 6);
+  },
+  // 暖光打底，偶尔有灯泡闪一下
+  twinkle: (bulb, time, palette, out) => {
+    out.copy(palette.warm);
+    const phase = (time * bulb.speed * 0.2 + bulb.timeOffset) % 1;
+    return 1.5 + (phase < 0.06 ? (1 - phase / 0.06) * 8 : 0);
+  },
+  // 彩虹色带从下往上流动
+  waves: (bulb, time, _palette, out) => {
+    out.setHSL((((bulb.height * 0.8 - time * 0.15) % 1) + 1) % 1, 1, 0.5);
+    return 4 + 2 * Math.sin(bulb.height * 12 - time * 3);
+  },
+  warmWhite: (bulb, time, palette, out) => {
+    out.copy(palette.warm);
+    return 4 + Math.sin(time * 0.8 + bulb.timeOffset) * 0.3;
+  },
+  // 每秒一次脉冲，亮着的部分从顶部往下缩，10 秒一轮
+  countdown: (bulb, time, palette, out) => {
+    out.copy(palette.gold);
+    const remaining = 1 - (time % 10) / 10;
+    const pulse = Math.exp(-(time % 1) * 5);
+    return bulb.height <= remaining ? 2 + pulse * 7 : 0.2;
+  },
+  // 烟花：每 1.5 秒在随机的高度炸开一团新颜色的光环，向上下扩散并渐暗 (倒计时归零时使用)
+  fireworks: (bulb, time, _palette, out) => {
+    const round = Math.floor(time / 1.5); const local = (time % 1.5) / 1.5;
+    const center = 0.2 + 0.6 * fract(Math.sin(round * 12.9898) * 43758.5453);
+    out.setHSL(fract(round * 0.37), 1, 0.55);
+    const ring = Math.exp(-Math.pow((Math.abs(bulb.height - center) - local * 0.5) * 14, 2));
+    return 0.3 + ring * 10 * (1 - local);
+  }
+};
+
+// 减少动态效果时 motion < 1：效果按比例放慢，亮度的起伏收向 STEADY_INTENSITY，鼓点也不再整体闪
+const STEADY_INTENSITY = 3;
+
+export const applyLightShow = (pattern: LightPattern, bulb: Bulb, time: number, audio: AudioLevels | null, palette: LightPalette, out: THREE.Color, motion = 1) => {
+  const intensity = THREE.MathUtils.lerp(STEADY_INTENSITY, PATTERNS[pattern](bulb, time * motion, palette, out), motion);
+  // 跟着音乐：音量越大越亮，鼓点时整体闪一下
+  return audio ? intensity * (0.4 + audio.level * 1.6) + audio.beat * 5 * motion : intensity;
+};
+
+// --- Beat Detection ---
+// 低频能量明显高于最近的平均值时判定为鼓点
+export const createBeatDetector = (analyser: AnalyserNode) => {
+  const data = new Uint8Array(analyser.frequencyBinCount);
+  const bassBins = Math.max(1, Math.floor(data.length / 16));
+  let average = 0; let lastBeat = -Infinity;
+  return (levels: AudioLevels, now: number) => {
+    analyser.getByteFrequencyData(data);
+    let bass = 0; let total = 0;
+    for (let i = 0; i < data.length; i++) { total += data[i]; if (i < bassBins) bass += data[i]; }
+    bass /= bassBins * 255;
+    levels.level = total / (data.length * 255);
+    if (bass > average * 1.35 && bass > 0.3 && now - lastBeat > 250) { levels.beat = 1; lastBeat = now; }
+    else levels.beat *= 0.9;
+    average = average * 0.95 + bass * 0.05;
+  };
+};
@@ -0,0 +1,194 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import type { PhotoEntry } from './photos';
+
+// --- Uploaded Photos (压缩后保存在 IndexedDB，刷新后仍然存在) ---
+export interface StoredPhoto {
+  id: string;
+  name: string;
+  blob: Blob;
+  order: number;
+  featured: boolean;
+  /** 取自文件的修改时间 (YYYY-MM-DD) */
+  date: string;
+}
+
+export interface UploadedPhoto extends StoredPhoto {
+  url: string;
+}
+
+/** append: 与内置照片一起展示；replace: 有上传照片时只展示上传的照片 */
+export type UploadMode = 'append' | 'replace';
+
+const DB_NAME = 'christmas-tree';
+const STORE_NAME = 'photos';
+const MODE_KEY = 'christmas-tree:upload-mode';
+const MAX_EDGE = 1024;
+const QUALITY = 0.85;
+
+const openDb = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, 1);
+  request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const withStore = async <T,>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T> | void) => {
+  const db = await openDb();
+  return new Promise<T | undefined>((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, mode);
+    const request = fn(tx.objectStore(STORE_NAME));
+    tx.oncomplete = () => { db.close(); resolve(request ? request.result : undefined); };
+    tx.onerror = () => { db.close(); reject(tx.error); };
+    // 超出配额等错误只触发 abort
+    tx.onabort = () => { db.close(); reject(tx.error ?? new Error('TRANSACTION ABORTED')); };
+  });
+};
+
+const readAll = async () => ((await withStore<StoredPhoto[]>('readonly', store => store.getAll())) ?? []).sort((a, b) => a.order - b.order);
+const writeAll = (records: StoredPhoto[]) => withStore('readwrite', store => { records.forEach(r => store.put(r)); });
+const deleteOne = (id: string) => withStore('readwrite', store => { store.delete(id); });
+
+// 客户端缩放 + 压缩，长边不超过 MAX_EDGE
+export const compressImage = async (file: Blob) => {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, MAX_EDGE / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale); canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/webp', QUALITY));
+  if (!blob) throw new Error('COMPRESS FAILED');
+  return blob;
+};
+
+// 拖入文件夹时递归读取其中的所有文件
+const readEntry = async (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.isFile) {
+    return new Promise(resolve => (entry as FileSystemFileEntry).file(f => resolve([f]), () => resolve([])));
+  }
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const children: FileSystemEntry[] = [];
+  // readEntries 每次最多返回 100 条，需要读到空为止
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>(resolve => reader.readEntries(resolve, () => resolve([])));
+    if (batch.length === 0) break;
+    children.push(...batch);
+  }
+  return (await Promise.all(children.map(readEntry))).flat();
+};
+
+export const filesFromDataTransfer = async (data: DataTransfer) => {
+  const entries = Array.from(data.items).map(item => item.webkitGetAsEntry()).filter((e): e is FileSystemEntry => !!e);
+  if (entries.length === 0) return Array.from(data.files);
+  return (await Promise.all(entries.map(readEntry))).flat();
+};
+
+const toRecord = ({ id, name, blob, order, featured, date }: UploadedPhoto): StoredPhoto => ({ id, name, blob, order, featured, date });
+
+export const toPhotoEntry = (photo: UploadedPhoto): PhotoEntry => ({ src: photo.url, date: photo.date, featured: photo.featured });
+
+export const useUploadedPhotos = () => {
+  const [photos, setPhotos] = useState<UploadedPhoto[]>([]);
+  const [pending, setPending] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [mode, setModeState] = useState<UploadMode>(() => localStorage.getItem(MODE_KEY) === 'replace' ? 'replace' : 'append');
+  const photosRef = useRef(photos);
+  photosRef.current = photos;
+
+  // 写入失败 (配额不足、隐私模式等) 时不改动列表，界面和数据库保持一致，错误显示在相册面板里
+  const fail = useCallback((action: string, err: unknown) => {
+    console.warn(`[photoStore] ${action} failed`, err);
+    setError(`Could not ${action}: ${(err as Error)?.message || 'storage unavailable'}`);
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    readAll()
+      .then(records => { if (!cancelled) setPhotos(records.map(r => ({ ...r, url: URL.createObjectURL(r.blob) }))); })
+      .catch(err => { if (!cancelled) fail('load photos', err); });
+    return () => { cancelled = true; };
+  }, [fail]);
+
+  useEffect(() => () => photosRef.current.forEach(p => URL.revokeObjectURL(p.url)), []);
+
+  const add = useCallback(async (files: File[]) => {
+    const images = files.filter(f => f.type.startsWith('image/'));
+    setPending(n => n + images.length);
+    const added: UploadedPhoto[] = [];
+    const nextOrder = Math.max(-1, ...photosRef.current.map(p => p.order)) + 1;
+    for (const file of images) {
+      try {
+        const blob = await compressImage(file);
+        const record: StoredPhoto = {
+          id: uuidv4(), name: file.name, blob, featured: false,
+          order: nextOrder + added.length,
+          date: new Date(file.lastModified).toISOString().slice(0, 10)
+        };
+        added.push({ ...record, url: URL.createObjectURL(blob) });
+      } catch (err) {
+        console.warn(`[photoStore] skipped ${file.name}`, err);
+      }
+      setPending(n => n - 1);
+    }
+    if (added.length === 0) return;
+    try {
+      await writeAll(added.map(toRecord));
+    } catch (err) {
+      added.forEach(p => URL.revokeObjectURL(p.url));
+      fail('save photos', err);
+      return;
+    }
+    setError(null);
+    setPhotos(list => [...list, ...added]);
+  }, [fail]);
+
+  const remove = useCallback(async (id: string) => {
+    try {
+      await deleteOne(id);
+    } catch (err) {
+      fail('remove photo', err);
+      return;
+    }
+    setError(null);
+    setPhotos(list => {
+      const target = list.find(p => p.id === id);
+      if (target) URL.revokeObjectURL(target.url);
+      return list.filter(p => p.id !== id);
+    });
+  }, [fail]);
+
+  const update = useCallback(async (changed: UploadedPhoto[]) => {
+    try {
+      await writeAll(changed.map(toRecord));
+    } catch (err) {
+      fail('update photo', err);
+      return;
+    }
+    setError(null);
+    setPhotos(list => list.map(p => changed.find(c => c.id === p.id) ?? p).sort((a, b) => a.order - b.order));
+  }, [fail]);
+
+  const move = useCallback((id: string, offset: number) => {
+    const list = photosRef.current;
+    const from = list.findIndex(p => p.id === id); const to = from + offset;
+    if (from < 0 || to < 0 || to >= list.length) return;
+    return update([{ ...list[from], order: list[to].order }, { ...list[to], order: list[from].order }]);
+  }, [update]);
+
+  const toggleStar = useCallback((id: string) => {
+    const target = photosRef.current.find(p => p.id === id);
+    if (target) return update([{ ...target, featured: !target.featured }]);
+  }, [update]);
+
+  const setMode = useCallback((next: UploadMode) => {
+    localStorage.setItem(MODE_KEY, next);
+    setModeState(next);
+  }, []);
+
+  const dismissError = useCallback(() => setError(null), []);
+
+  return { photos, pending, error, dismissError, mode, setMode, add, remove, move, toggleStar };
+};
+
+export type UploadedPhotos = ReturnType<typeof useUploadedPhotos>;
@@ -0,0 +1,137 @@
+import { useEffect, useRef, useState } from 'react';
+import * as THREE from 'three';
+
+// --- Photo Manifest (由 plugins/photoManifest.ts 生成) ---
+export interface PhotoEntry {
+  src: string;
+  caption?: string;
+  date?: string;
+  /** 出现频率权重，默认 1 */
+  weight?: number;
+  /** 精选照片总以大尺寸拍立得展示 */
+  featured?: boolean;
+}
+
+export interface LoadedPhoto {
+  photo: PhotoEntry;
+  texture: THREE.Texture;
+}
+
+const isPhotoEntry = (value: unknown): value is PhotoEntry =>
+  typeof value === 'object' && value !== null && typeof (value as PhotoEntry).src === 'string';
+
+export const loadPhotoManifest = async (url: string): Promise<PhotoEntry[]> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`MANIFEST ${response.status}`);
+  const manifest = await response.json();
+  if (!Array.isArray(manifest?.photos)) throw new Error('MANIFEST INVALID');
+  return manifest.photos.filter(isPhotoEntry);
+};
+
+export const usePhotoManifest = (url: string) => {
+  const [photos, setPhotos] = useState<PhotoEntry[]>([]);
+  useEffect(() => {
+    let cancelled = false;
+    loadPhotoManifest(url)
+      .then(list => { if (!cancelled) setPhotos(list); })
+      .catch(err => console.warn('[photos] manifest unavailable', err));
+    return () => { cancelled = true; };
+  }, [url]);
+  return photos;
+};
+
+// 逐张加载贴图，加载失败的照片直接跳过而不是让整个场景崩溃；按 src 缓存，列表变化时只加载新增的照片
+export const usePhotoTextures = (photos: PhotoEntry[]) => {
+  const cache = useRef(new Map<string, Promise<THREE.Texture>>());
+  const [loaded, setLoaded] = useState<LoadedPhoto[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const loader = new THREE.TextureLoader();
+    const keep = new Set(photos.map(p => p.src));
+    cache.current.forEach((texture, src) => {
+      if (keep.has(src)) return;
+      cache.current.delete(src);
+      texture.then(t => t.dispose(), () => {});
+    });
+    const requests = photos.map(photo => {
+      let texture = cache.current.get(photo.src);
+      if (!texture) { texture = loader.loadAsync(photo.src); cache.current.set(photo.src, texture); }
+      return texture;
+    });
+    Promise.allSettled(requests).then(results => {
+      if (cancelled) return;
+      const ok: LoadedPhoto[] = [];
+      results.forEach((result, i) => {
+        if (result.status === 'fulfilled') ok.push({ photo: photos[i], texture: result.value });
+        else console.warn(`[photos] skipped ${photos[i].src}`, result.reason);
+      });
+      setLoaded(ok);
+    });
+    return () => { cancelled = true; };
+  }, [photos]);
+
+  useEffect(() => {
+    const textures = cache.current;
+    return () => {
+      textures.forEach(texture => texture.then(t => t.dispose(), () => {}));
+      textures.clear();
+    };
+  }, []);
+
+  return loaded;
+};
+
+// 不含扩展名的文件名，例如 /photos/top.jpg -> top
+export const photoName = (src: string) => decodeURIComponent(src.split('/').pop() ?? '').replace(/\.[^.]+$/, '');
+
+// 平滑加权轮询：按 weight 把照片分配给 count 个拍立得，权重相同时等价于 i % photos.length
+export const assignPhotos = (count: number, photos: PhotoEntry[]) => {
+  if (photos.length === 0) return [];
+  const weights = photos.map(p => Math.max(p.weight ?? 1, 0));
+  const total = weights.reduce((a, b) => a + b, 0) || 1;
+  const current = new Array(photos.length).fill(0);
+  return new Array(count).fill(0).map(() => {
+    let best = 0;
+    for (let i = 0; i < photos.length; i++) {
+      current[i] += weights[i];
+      if (current[i] > current[best]) best = i;
+    }
+    current[best] -= total;
+    return best;
+  });
+};
+
+// --- Photo Atlas: 所有照片画进一张贴图，拍立得用 InstancedMesh 一次画完 ---
+export interface PhotoAtlas {
+  texture: THREE.CanvasTexture;
+  /** rects[i] 是 loaded[i] 在图集中的区域 (u, v, 宽, 高) */
+  rects: [number, number, number, number][];
+}
+
+const ATLAS_SIZE = 4096;
+const ATLAS_PADDING = 2; // 防止 mipmap 采样到相邻的照片
+
+export const createPhotoAtlas = (loaded: LoadedPhoto[]): PhotoAtlas => {
+  const grid = Math.max(1, Math.ceil(Math.sqrt(loaded.length)));
+  const cell = Math.min(512, Math.floor(ATLAS_SIZE / grid));
+  const size = grid * cell;
+  const canvas = document.createElement('canvas');
+  canvas.width = size; canvas.height = size;
+  const ctx = canvas.getContext('2d')!;
+  const inner = cell - ATLAS_PADDING * 2;
+  const rects = loaded.map(({ texture }, i) => {
+    const x = (i % grid) * cell + ATLAS_PADDING; const y = Math.floor(i / grid) * cell + ATLAS_PADDING;
+    // 居中裁成正方形
+    const image = texture.image as HTMLImageElement;
+    const width = image.naturalWidth || image.width; const height = image.naturalHeight || image.height;
+    const crop = Math.min(width, height);
+    ctx.drawImage(image, (width - crop) / 2, (height - crop) / 2, crop, crop, x, y, inner, inner);
+    // CanvasTexture 默认 flipY，v 轴从画布底部算起
+    return [x / size, 1 - (y + inner) / size, inner / size, inner / size] as [number, number, number, number];
+  });
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  texture.anisotropy = 4;
+  return { texture, rects };
+};
@@ -0,0 +1,61 @@
+import { useCallback, useRef, useState } from 'react';
+import { CONFIG } from './config';
+
+// --- Quality Tiers ---
+export type QualityTier = 'low' | 'medium' | 'high' | 'ultra';
+export type QualitySetting = QualityTier | 'auto';
+
+export const QUALITY_TIERS: readonly QualityTier[] = ['low', 'medium', 'high', 'ultra'];
+export const QUALITY_SETTINGS: readonly QualitySetting[] = ['auto', ...QUALITY_TIERS];
+
+export interface QualityPreset {
+  counts: { foliage: number, ornaments: number, elements: number, lights: number };
+  dpr: [number, number];
+  /** none: 不做后期  bloom: 只有辉光  full: 辉光 + 暗角 + 抗锯齿 */
+  postprocessing: 'none' | 'bloom' | 'full';
+  sparkles: number;
+  stars: number;
+  /** 雪花粒子数量 */
+  snow: number;
+  environment: boolean;
+}
+
+const SETTING_KEY = 'christmas-tree:quality';
+
+const readSetting = (): QualitySetting => {
+  const stored = localStorage.getItem(SETTING_KEY) as QualitySetting | null;
+  return stored && QUALITY_SETTINGS.includes(stored) ? stored : CONFIG.quality.setting;
+};
+
+// auto 模式下由 PerformanceMonitor 根据帧时间升降档；手动选择的档位会记住
+// 来回升降档的次数用完后 (fallback) 锁定在较低的那一档，不再无休止地在两档之间切换
+export const useQuality = () => {
+  const [setting, setSettingState] = useState(readSetting);
+  const [autoTier, setAutoTier] = useState<QualityTier>(CONFIG.quality.autoStart);
+  const [locked, setLocked] = useState(false);
+  const lastStepRef = useRef<1 | -1 | 0>(0);
+  const tier = setting === 'auto' ? autoTier : setting;
+
+  const setSetting = useCallback((next: QualitySetting) => {
+    localStorage.setItem(SETTING_KEY, next);
+    setSettingState(next);
+  }, []);
+  const step = useCallback((direction: 1 | -1) => {
+    lastStepRef.current = direction;
+    setAutoTier(current => QUALITY_TIERS[Math.min(QUALITY_TIERS.length - 1, Math.max(0, QUALITY_TIERS.indexOf(current) + direction))]);
+  }, []);
+  const cycle = useCallback(() => setSetting(QUALITY_SETTINGS[(QUALITY_SETTINGS.indexOf(setting) + 1) % QUALITY_SETTINGS.length]), [setting, setSetting]);
+
+  return {
+    setting, tier, locked, preset: CONFIG.quality.tiers[tier],
+    setSetting, cycle,
+    decline: useCallback(() => { if (setting === 'auto' && !locked) step(-1); }, [setting, locked, step]),
+    incline: useCallback(() => { if (setting === 'auto' && !locked) step(1); }, [setting, locked, step]),
+    // 最后一次是升档的话，说明这一档撑不住，退回去再锁定
+    fallback: useCallback(() => {
+      if (setting !== 'auto' || locked) return;
+      if (lastStepRef.current === 1) step(-1);
+      setLocked(true);
+    }, [setting, locked, step])
+  };
+};
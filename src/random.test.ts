@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { createRng } from './random';
+
+const take = (rng: () => number, n: number) => Array.from({ length: n }, rng);
+
+describe('createRng', () => {
+  it('returns the same sequence for the same seed', () => {
+    expect(take(createRng(42), 100)).toEqual(take(createRng(42), 100));
+    expect(take(createRng('merry'), 100)).toEqual(take(createRng('merry'), 100));
+  });
+
+  it('returns different sequences for different seeds and streams', () => {
+    expect(take(createRng(42), 10)).not.toEqual(take(createRng(43), 10));
+    expect(take(createRng(42, 'foliage'), 10)).not.toEqual(take(createRng(42, 'lights'), 10));
+  });
+
+  it('stays within [0, 1)', () => {
+    for (const value of take(createRng('range'), 10000)) {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+});
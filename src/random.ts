@@ -0,0 +1,36 @@
+// --- Seeded PRNG ---
+// 所有布局都从同一个种子派生，相同的种子总是生成同一棵树
+export type Rng = () => number;
+
+// xmur3：把任意字符串哈希成 32 位整数
+const hashSeed = (seed: string) => {
+  let h = 1779033703 ^ seed.length;
+  for (let i = 0; i < seed.length; i++) {
+    h = Math.imul(h ^ seed.charCodeAt(i), 3432918353);
+    h = (h << 13) | (h >>> 19);
+  }
+  h = Math.imul(h ^ (h >>> 16), 2246822507);
+  h = Math.imul(h ^ (h >>> 13), 3266489909);
+  return (h ^ (h >>> 16)) >>> 0;
+};
+
+/** mulberry32；stream 用来给每一层派生独立的序列，修改某一层的数量不会影响其他层 */
+export const createRng = (seed: number | string, stream = ''): Rng => {
+  let a = hashSeed(`${seed}:${stream}`);
+  return () => {
+    a = (a + 0x6D2B79F5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const pick = <T,>(rng: Rng, list: readonly T[]) => list[Math.floor(rng() * list.length)];
+
+/** URL 参数 ?seed= 优先，其次是配置，都没有时随机生成一个 */
+export const resolveSeed = (configured: number | string | null) => {
+  const param = new URLSearchParams(window.location.search).get('seed');
+  if (param) return param;
+  if (configured !== null) return configured;
+  return Math.floor(Math.random() * 2 ** 31);
+};
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { CONFIG } from './config';
+import { parseRemoteMessage } from './remote';
+
+const state = (patch: Record<string, unknown>) => parseRemoteMessage(JSON.stringify({ type: 'state', patch }));
+
+describe('parseRemoteMessage', () => {
+  it('keeps valid fields of a state patch', () => {
+    expect(state({ mode: 'CHAOS', shape: 'heart', focus: 2, lights: false, pattern: 'chase' }))
+      .toEqual({ type: 'state', patch: { mode: 'CHAOS', shape: 'heart', focus: 2, lights: false, pattern: 'chase' } });
+  });
+
+  it('drops shapes that are not configured, including inherited object keys', () => {
+    for (const shape of ['constructor', 'toString', '__proto__', 'hasOwnProperty', 'pyramid']) {
+      expect(state({ shape })).toEqual({ type: 'state', patch: {} });
+    }
+  });
+
+  it('clamps the explosion spread to the two-hand maximum', () => {
+    expect(state({ spread: 1e9 })).toEqual({ type: 'state', patch: { spread: CONFIG.gestures.twoHands.maxSpread } });
+    expect(state({ spread: 1.5 })).toEqual({ type: 'state', patch: { spread: 1.5 } });
+    expect(state({ spread: -1 })).toEqual({ type: 'state', patch: {} });
+  });
+
+  it('rejects snapshots with an unknown shape', () => {
+    const snapshot = { mode: 'FORMED', spread: 1, seed: 1, shape: 'constructor', focus: null, lights: true, pattern: 'classic', photos: 3, tour: false };
+    expect(parseRemoteMessage(JSON.stringify({ type: 'snapshot', snapshot }))).toBeNull();
+  });
+
+  it('rejects malformed messages', () => {
+    expect(parseRemoteMessage('not json')).toBeNull();
+    expect(parseRemoteMessage(JSON.stringify({ type: 'orbit', azimuth: 'left' }))).toBeNull();
+    expect(parseRemoteMessage(JSON.stringify({ type: 'unknown' }))).toBeNull();
+  });
+});
@@ -0,0 +1,176 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { CONFIG } from './config';
+import { LIGHT_PATTERNS, type LightPattern } from './lightPatterns';
+import type { SceneMode } from './sceneState';
+import type { ShapeType } from './shapes';
+
+// --- Remote Control Channel ---
+// 局域网内的 WebSocket 中继 (npm run relay) 把每条消息转发给其他所有连接：显示端之间同步场景状态和种子，遥控器 (remote.html) 发送指令
+/** 各个屏幕之间同步的状态 */
+export interface SyncState {
+  mode: SceneMode;
+  spread: number;
+  seed: number | string;
+  shape: ShapeType;
+  /** 聚焦的照片在照片列表中的序号 (不是拍立得的序号：各屏幕的画质不同，拍立得数量也不同) */
+  focus: number | null;
+  lights: boolean;
+  pattern: LightPattern;
+}
+
+/** 显示端的完整状态：中继保存最新的一份，交给新加入的显示端和遥控器 */
+export interface Snapshot extends SyncState {
+  photos: number;
+  tour: boolean;
+}
+
+export type TourAction = 'start' | 'stop' | 'next' | 'prev';
+
+export type RemoteMessage =
+  // 中继 -> 刚连上的客户端
+  | { type: 'welcome', snapshot: Snapshot | null }
+  // 用户的操作 (只包含变化的字段)；其余屏幕照着执行
+  | { type: 'state', patch: Partial<SyncState> }
+  | { type: 'snapshot', snapshot: Snapshot }
+  // 幻灯片：每个屏幕用同一个 seed 打乱顺序，播放的顺序也一样
+  | { type: 'tour', action: TourAction, seed?: number }
+  // 遥控器转动 / 缩放镜头 (一次性的位移，同 CONFIG.controls 的步长)
+  | { type: 'orbit', azimuth: number, polar: number }
+  | { type: 'zoom', amount: number };
+
+export type RemoteStatus = 'off' | 'connecting' | 'connected';
+
+const SCENE_MODES: readonly SceneMode[] = ['CHAOS', 'FORMED', 'EXPLODING', 'SPIRAL_ASSEMBLE', 'GALLERY', 'SNOWGLOBE'];
+const TOUR_ACTIONS: readonly TourAction[] = ['start', 'stop', 'next', 'prev'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// 只留下合法的字段，其余的丢掉 (频道上的消息来自局域网内的任何人)
+const parsePatch = (raw: Record<string, unknown>): Partial<SyncState> => {
+  const patch: Partial<SyncState> = {};
+  if (SCENE_MODES.includes(raw.mode as SceneMode)) patch.mode = raw.mode as SceneMode;
+  // 爆炸范围和双手张开时一样有上限，避免粒子被甩到无穷远
+  if (isFiniteNumber(raw.spread) && raw.spread > 0) patch.spread = Math.min(raw.spread, CONFIG.gestures.twoHands.maxSpread);
+  if (typeof raw.seed === 'string' || isFiniteNumber(raw.seed)) patch.seed = raw.seed;
+  if (typeof raw.shape === 'string' && Object.hasOwn(CONFIG.shapes, raw.shape)) patch.shape = raw.shape as ShapeType;
+  if (raw.focus === null || (Number.isInteger(raw.focus) && (raw.focus as number) >= 0)) patch.focus = raw.focus as number | null;
+  if (typeof raw.lights === 'boolean') patch.lights = raw.lights;
+  if (LIGHT_PATTERNS.includes(raw.pattern as LightPattern)) patch.pattern = raw.pattern as LightPattern;
+  return patch;
+};
+
+const parseSnapshot = (raw: unknown): Snapshot | null => {
+  if (!isRecord(raw) || !Number.isInteger(raw.photos) || typeof raw.tour !== 'boolean') return null;
+  const patch = parsePatch(raw);
+  const { mode, spread, seed, shape, focus, lights, pattern } = patch;
+  if (!mode || spread === undefined || seed === undefined || !shape || focus === undefined || lights === undefined || !pattern) return null;
+  return { mode, spread, seed, shape, focus, lights, pattern, photos: raw.photos as number, tour: raw.tour };
+};
+
+export const parseRemoteMessage = (data: string): RemoteMessage | null => {
+  let raw: unknown;
+  try { raw = JSON.parse(data); } catch { return null; }
+  if (!isRecord(raw)) return null;
+  switch (raw.type) {
+    case 'welcome': return { type: 'welcome', snapshot: parseSnapshot(raw.snapshot) };
+    case 'state': return isRecord(raw.patch) ? { type: 'state', patch: parsePatch(raw.patch) } : null;
+    case 'snapshot': { const snapshot = parseSnapshot(raw.snapshot); return snapshot && { type: 'snapshot', snapshot }; }
+    case 'tour':
+      if (!TOUR_ACTIONS.includes(raw.action as TourAction)) return null;
+      return { type: 'tour', action: raw.action as TourAction, seed: isFiniteNumber(raw.seed) ? raw.seed : undefined };
+    case 'orbit': return isFiniteNumber(raw.azimuth) && isFiniteNumber(raw.polar) ? { type: 'orbit', azimuth: raw.azimuth, polar: raw.polar } : null;
+    case 'zoom': return isFiniteNumber(raw.amount) ? { type: 'zoom', amount: raw.amount } : null;
+    default: return null;
+  }
+};
+
+/** URL 参数 ?relay=ws://host:port 优先 (只写 ?relay 时连接本页所在主机的默认端口)，其次是 CONFIG.remote.url；都没有时不连接 */
+export const resolveRelayUrl = () => {
+  const param = new URLSearchParams(window.location.search).get('relay');
+  if (param) return param;
+  if (param === '') return `ws://${window.location.hostname || 'localhost'}:${CONFIG.remote.port}`;
+  return CONFIG.remote.url;
+};
+
+interface ChannelHandlers {
+  onMessage: (message: RemoteMessage) => void;
+  onStatus: (status: RemoteStatus) => void;
+}
+
+// 断线后自动重连 (间隔逐渐变长)；收到中继的 welcome 之前不发送任何消息，避免新加入的屏幕用默认状态覆盖其他屏幕
+export const createRemoteChannel = (url: string, { onMessage, onStatus }: ChannelHandlers) => {
+  const { retry } = CONFIG.remote;
+  let socket: WebSocket | null = null;
+  let ready = false;
+  let closed = false;
+  let delay = retry[0];
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const connect = () => {
+    onStatus('connecting');
+    try {
+      socket = new WebSocket(url);
+    } catch (err) {
+      // 地址格式错误时不再重试
+      console.warn('[remote] invalid relay url', url, err);
+      onStatus('off');
+      return;
+    }
+    socket.onmessage = e => {
+      const message = typeof e.data === 'string' ? parseRemoteMessage(e.data) : null;
+      if (!message) return;
+      if (message.type === 'welcome') { ready = true; delay = retry[0]; onStatus('connected'); }
+      if (ready) onMessage(message);
+    };
+    socket.onclose = () => {
+      ready = false; socket = null;
+      if (closed) return;
+      onStatus('connecting');
+      timer = setTimeout(connect, delay);
+      delay = Math.min(delay * 2, retry[1]);
+    };
+  };
+  connect();
+
+  return {
+    send: (message: RemoteMessage) => { if (ready && socket) socket.send(JSON.stringify(message)); },
+    close: () => { closed = true; clearTimeout(timer); socket?.close(); }
+  };
+};
+
+/**
+ * 连接中继；url 为 null 时不连接
+ * share() 只发送和上一次同步的值不同的字段，收到的值用 receive() 记下来，这样本机照着执行之后不会再发回去
+ */
+export const useRemoteChannel = (url: string | null, onMessage: (message: RemoteMessage) => void) => {
+  const [status, setStatus] = useState<RemoteStatus>(url ? 'connecting' : 'off');
+  const handlerRef = useRef(onMessage);
+  handlerRef.current = onMessage;
+  const channelRef = useRef<ReturnType<typeof createRemoteChannel> | null>(null);
+
+  useEffect(() => {
+    if (!url) return;
+    const channel = createRemoteChannel(url, { onMessage: message => handlerRef.current(message), onStatus: setStatus });
+    channelRef.current = channel;
+    return () => { channel.close(); channelRef.current = null; };
+  }, [url]);
+
+  const api = useMemo(() => {
+    const shared: Partial<SyncState> = {};
+    const send = (message: RemoteMessage) => channelRef.current?.send(message);
+    return {
+      send,
+      share: (patch: Partial<SyncState>) => {
+        const changed = (Object.keys(patch) as (keyof SyncState)[]).filter(key => shared[key] !== patch[key]);
+        if (changed.length === 0) return;
+        Object.assign(shared, patch);
+        send({ type: 'state', patch: Object.fromEntries(changed.map(key => [key, patch[key]])) });
+      },
+      receive: (patch: Partial<SyncState>) => { Object.assign(shared, patch); }
+    };
+  }, []);
+  return { status, ...api };
+};
+
+export type RemoteChannel = ReturnType<typeof useRemoteChannel>;
@@ -0,0 +1,9 @@
+import { StrictMode } from 'react'
+import { createRoot } from 'react-dom/client'
+import RemoteControl from './RemoteControl.tsx'
+
+createRoot(document.getElementById('root')!).render(
+  <StrictMode>
+    <RemoteControl />
+  </StrictMode>,
+)
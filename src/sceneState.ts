@@ -0,0 +1,155 @@
+import { createContext, useContext, useEffect, useRef, useSyncExternalStore } from 'react';
+import * as THREE from 'three';
+import { CONFIG } from './config';
+
+// --- Scene State Machine ---
+// 整个场景只有一个状态源：按钮、手势、幻灯片都调用 transition()，各组件在 useFrame 中读取当前过渡的进度
+export type SceneMode = 'CHAOS' | 'FORMED' | 'EXPLODING' | 'SPIRAL_ASSEMBLE' | 'GALLERY' | 'SNOWGLOBE';
+
+const clamp01 = (t: number) => THREE.MathUtils.clamp(t, 0, 1);
+
+export const EASINGS = {
+  linear: (t: number) => t,
+  easeOutCubic: (t: number) => 1 - Math.pow(1 - t, 3),
+  easeInOutCubic: (t: number) => t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2,
+  easeOutExpo: (t: number) => t >= 1 ? 1 : 1 - Math.pow(2, -10 * t)
+};
+export type Easing = keyof typeof EASINGS;
+
+export interface ModeSpec {
+  /** 进入该状态的过渡时间 (秒) */
+  duration: number;
+  easing: Easing;
+  /** 过渡结束后自动切换到的状态 (例如爆炸之后回到散开) */
+  then?: SceneMode;
+}
+
+export interface SceneTransition {
+  mode: SceneMode;
+  from: SceneMode;
+  /** performance.now() 的毫秒数 */
+  startedAt: number;
+  spec: ModeSpec;
+  /** 爆炸范围的倍数 (两只手张开后分开时大于 1，其余为 1) */
+  spread: number;
+}
+
+export type SceneEvent =
+  | { type: 'enter', mode: SceneMode, from: SceneMode }
+  | { type: 'settle', mode: SceneMode };
+
+export interface SceneMachineOptions {
+  initial: SceneMode;
+  modes: Record<SceneMode, ModeSpec>;
+  now?: () => number;
+}
+
+export const createSceneMachine = ({ initial, modes, now = () => performance.now() }: SceneMachineOptions) => {
+  let current: SceneTransition = { mode: initial, from: initial, startedAt: -Infinity, spec: modes[initial], spread: 1 };
+  let settleTimer: ReturnType<typeof setTimeout> | undefined;
+  const listeners = new Set<(event: SceneEvent) => void>();
+  const emit = (event: SceneEvent) => listeners.forEach(listener => listener(event));
+
+  // 同一状态只有 spread 变了才重新进入 (例如爆炸途中两只手再分开)
+  const transition = (mode: SceneMode, spread = 1) => {
+    if (mode === current.mode && spread === current.spread) return;
+    clearTimeout(settleTimer);
+    const spec = modes[mode];
+    current = { mode, from: current.mode, startedAt: now(), spec, spread };
+    emit({ type: 'enter', mode, from: current.from });
+    settleTimer = setTimeout(() => {
+      emit({ type: 'settle', mode });
+      if (spec.then) transition(spec.then);
+    }, spec.duration * 1000);
+  };
+
+  return {
+    get: () => current,
+    transition,
+    /** 当前过渡经过缓动后的进度 0..1 */
+    progress: () => {
+      const { startedAt, spec } = current;
+      const t = spec.duration > 0 ? clamp01((now() - startedAt) / (spec.duration * 1000)) : 1;
+      return EASINGS[spec.easing](t);
+    },
+    subscribe: (listener: (event: SceneEvent) => void) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    }
+  };
+};
+
+export type SceneMachine = ReturnType<typeof createSceneMachine>;
+
+// 场景时间：平时跟随 performance.now()；录像时暂停并由录制器逐帧推进，恢复后从停下的时刻继续走，不会倒退
+export const createSceneClock = () => {
+  let offset = 0; let held: number | null = null;
+  return {
+    now: () => held ?? performance.now() + offset,
+    hold: () => { if (held === null) held = performance.now() + offset; },
+    advance: (ms: number) => { if (held !== null) held += ms; },
+    release: () => { if (held !== null) { offset = held - performance.now(); held = null; } }
+  };
+};
+
+export type SceneClock = ReturnType<typeof createSceneClock>;
+
+/** 树是否处于聚合 (或正在聚合) 的状态 */
+export const isTreeMode = (mode: SceneMode) => mode === 'FORMED' || mode === 'SPIRAL_ASSEMBLE' || mode === 'SNOWGLOBE';
+
+// --- React 绑定 ---
+export const SceneContext = createContext<SceneMachine | null>(null);
+
+export const useScene = () => {
+  const scene = useContext(SceneContext);
+  if (!scene) throw new Error('useScene must be used inside <SceneContext.Provider>');
+  return scene;
+};
+
+/** 订阅状态变化并触发重新渲染；只在 useFrame 中用到的组件直接读 scene.get() 即可 */
+export const useSceneTransition = (scene: SceneMachine) => useSyncExternalStore(scene.subscribe, scene.get);
+
+export const useSceneEvent = (handler: (event: SceneEvent) => void) => {
+  const scene = useScene();
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+  useEffect(() => scene.subscribe(event => handlerRef.current(event)), [scene]);
+};
+
+// --- 过渡辅助 ---
+// 数值：每次进入新状态时记下当前值，之后按过渡进度走向新状态对应的值
+export const createTween = (initial: number) => {
+  let from = initial; let value = initial;
+  return {
+    start: () => { from = value; },
+    update: (to: number, t: number) => (value = from + (to - from) * t)
+  };
+};
+
+export const EXPLODE_SCALE = 2.2;
+const Y_AXIS = new THREE.Vector3(0, 1, 0);
+const explodeScratch = new THREE.Vector3();
+
+/**
+ * 把一个元素从 start 移向当前状态下的终点，t 为过渡进度
+ * EXPLODING 时终点为散开位置的 EXPLODE_SCALE * spread 倍
+ * SPIRAL_ASSEMBLE 时按目标高度从下往上依次到位，并绕 y 轴盘旋进来；返回该元素自己的进度
+ */
+export const placeItem = (out: THREE.Vector3, mode: SceneMode, t: number, start: THREE.Vector3, chaosPos: THREE.Vector3, treePos: THREE.Vector3, spread = 1) => {
+  let local = t;
+  if (mode === 'SPIRAL_ASSEMBLE') {
+    const h = clamp01((treePos.y + CONFIG.tree.height / 2) / CONFIG.tree.height);
+    local = clamp01((t - h * 0.5) / 0.5);
+  }
+  const end = isTreeMode(mode) ? treePos : mode === 'EXPLODING' ? explodeScratch.copy(chaosPos).multiplyScalar(EXPLODE_SCALE * spread) : chaosPos;
+  out.lerpVectors(start, end, local);
+  if (mode === 'SPIRAL_ASSEMBLE') out.applyAxisAngle(Y_AXIS, (1 - local) * Math.PI * 3);
+  return local;
+};
+
+// 进入新状态时记下每个元素的当前位置，作为这次过渡的起点
+export const useTransitionStart = (items: { currentPos: THREE.Vector3, startPos: THREE.Vector3 }[]) =>
+  useSceneEvent(event => { if (event.type === 'enter') for (const item of items) item.startPos.copy(item.currentPos); });
+
+/** 位置跟随的平滑系数：过渡中途切换形状、取消聚焦时不会跳变 */
+export const FOLLOW_RATE = 6;
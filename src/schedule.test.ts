@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import { createScheduler, formatCountdown, nextCountdown, type CountdownTarget, type ScheduleEntry } from './schedule';
+
+// 日程按本地时间计算，期望值也用本地时间构造，不受运行测试的时区影响
+const local = (year: number, month: number, day: number, hours = 0, minutes = 0, seconds = 0) => new Date(year, month - 1, day, hours, minutes, seconds).getTime();
+
+const fakeClock = (start: number) => {
+  let time = start;
+  return { now: () => time, set: (next: number) => { time = next; }, advance: (ms: number) => { time += ms; } };
+};
+
+const CHRISTMAS: CountdownTarget = { label: 'Christmas', at: '12-25T00:00', message: 'Merry Christmas!' };
+const NEW_YEAR: CountdownTarget = { label: 'New Year', at: '01-01T00:00', message: 'Happy New Year!' };
+
+describe('createScheduler', () => {
+  it('fires an hourly event exactly once per hour', () => {
+    const clock = fakeClock(local(2026, 3, 1, 10, 59, 55));
+    const scheduler = createScheduler({ targets: [], events: [{ every: 'hour', action: { type: 'assemble' } }] }, clock.now);
+    const fired: number[] = [];
+    for (let i = 0; i < 20; i++) {
+      clock.advance(1000);
+      if (scheduler.tick().length > 0) fired.push(clock.now());
+    }
+    expect(fired).toEqual([local(2026, 3, 1, 11)]);
+  });
+
+  it('catches up a missed hourly event only once after the page was throttled', () => {
+    const clock = fakeClock(local(2026, 3, 1, 10, 59, 55));
+    const scheduler = createScheduler({ targets: [], events: [{ every: 'hour', action: { type: 'assemble' } }] }, clock.now);
+    clock.set(local(2026, 3, 1, 13, 30));
+    expect(scheduler.tick()).toEqual([{ type: 'assemble' }]);
+    clock.advance(1000);
+    expect(scheduler.tick()).toEqual([]);
+  });
+
+  it('fires an "at" event exactly once', () => {
+    const clock = fakeClock(local(2026, 12, 31, 17, 59, 58));
+    const scheduler = createScheduler({ targets: [], events: [{ at: '2026-12-31T18:00', action: { type: 'disperse' } }] }, clock.now);
+    const fired = [];
+    for (let i = 0; i < 10; i++) {
+      clock.advance(1000);
+      fired.push(...scheduler.tick());
+    }
+    expect(fired).toEqual([{ type: 'disperse' }]);
+  });
+
+  it('does not fire events that passed before it was created', () => {
+    const clock = fakeClock(local(2026, 12, 31, 18, 0, 5));
+    const scheduler = createScheduler({ targets: [], events: [{ at: '2026-12-31T18:00', action: { type: 'disperse' } }] }, clock.now);
+    clock.advance(1000);
+    expect(scheduler.tick()).toEqual([]);
+  });
+
+  it('fires countdown offsets before and after zero', () => {
+    const events: ScheduleEntry[] = [
+      { countdown: -10, action: { type: 'lightPattern', pattern: 'countdown' } },
+      { countdown: 0, action: { type: 'celebrate' } },
+      { countdown: 6, action: { type: 'assemble' } }
+    ];
+    const clock = fakeClock(local(2026, 12, 24, 23, 59, 45));
+    const scheduler = createScheduler({ targets: [CHRISTMAS], events }, clock.now);
+    const fired: [number, string][] = [];
+    for (let i = 0; i < 30; i++) {
+      clock.advance(1000);
+      for (const action of scheduler.tick()) fired.push([clock.now(), action.type]);
+    }
+    expect(fired).toEqual([
+      [local(2026, 12, 24, 23, 59, 50), 'lightPattern'],
+      [local(2026, 12, 25), 'celebrate'],
+      [local(2026, 12, 25, 0, 0, 6), 'assemble']
+    ]);
+  });
+
+  it('returns overdue actions in time order', () => {
+    const events: ScheduleEntry[] = [
+      { countdown: 6, action: { type: 'assemble' } },
+      { countdown: -10, action: { type: 'lightPattern', pattern: 'countdown' } }
+    ];
+    const clock = fakeClock(local(2026, 12, 24, 23, 59, 45));
+    const scheduler = createScheduler({ targets: [CHRISTMAS], events }, clock.now);
+    clock.set(local(2026, 12, 25, 0, 1));
+    expect(scheduler.tick().map(action => action.type)).toEqual(['lightPattern', 'assemble']);
+  });
+
+  it('rolls a yearly target over into the next year', () => {
+    const clock = fakeClock(local(2026, 12, 31, 23, 59, 58));
+    const scheduler = createScheduler({ targets: [NEW_YEAR], events: [{ countdown: 0, action: { type: 'celebrate' } }] }, clock.now);
+    clock.set(local(2027, 1, 1, 0, 0, 1));
+    expect(scheduler.tick()).toEqual([{ type: 'celebrate' }]);
+  });
+
+  it('ignores a clock that goes backwards', () => {
+    const clock = fakeClock(local(2026, 3, 1, 11, 0, 5));
+    const scheduler = createScheduler({ targets: [], events: [{ every: 'hour', action: { type: 'assemble' } }] }, clock.now);
+    clock.set(local(2026, 3, 1, 10, 59, 50));
+    expect(scheduler.tick()).toEqual([]);
+    clock.set(local(2026, 3, 1, 10, 59, 59));
+    expect(scheduler.tick()).toEqual([]);
+  });
+});
+
+describe('nextCountdown', () => {
+  it('counts down to the nearest target', () => {
+    const countdown = nextCountdown([NEW_YEAR, CHRISTMAS], local(2026, 12, 24, 23, 0), 60);
+    expect(countdown).toEqual({ label: 'Christmas', message: 'Merry Christmas!', remaining: 60 * 60 * 1000 });
+  });
+
+  it('keeps the message for hold seconds after zero', () => {
+    expect(nextCountdown([CHRISTMAS], local(2026, 12, 25, 0, 0, 30), 60)?.remaining).toBe(-30 * 1000);
+    expect(nextCountdown([CHRISTMAS, NEW_YEAR], local(2026, 12, 25, 0, 1, 30), 60)?.label).toBe('New Year');
+  });
+
+  it('rolls over to next year once this year has passed', () => {
+    const countdown = nextCountdown([NEW_YEAR], local(2027, 1, 1, 0, 5), 60);
+    expect(countdown?.remaining).toBe(local(2028, 1, 1) - local(2027, 1, 1, 0, 5));
+    expect(nextCountdown([CHRISTMAS], local(2026, 12, 31), 60)?.remaining).toBe(local(2027, 12, 25) - local(2026, 12, 31));
+  });
+
+  it('returns null when every one-off target has passed', () => {
+    expect(nextCountdown([{ label: 'Launch', at: '2026-01-01T00:00', message: 'Go!' }], local(2026, 6, 1), 60)).toBeNull();
+  });
+});
+
+describe('formatCountdown', () => {
+  it('pads hours, minutes and seconds', () => {
+    expect(formatCountdown(0)).toBe('00:00:00');
+    expect(formatCountdown(65 * 1000)).toBe('00:01:05');
+    expect(formatCountdown((10 * 3600 + 2 * 60 + 3) * 1000)).toBe('10:02:03');
+  });
+
+  it('rounds partial seconds up so zero is only shown at zero', () => {
+    expect(formatCountdown(1)).toBe('00:00:01');
+    expect(formatCountdown(1500)).toBe('00:00:02');
+  });
+
+  it('adds days when a day or more remains', () => {
+    expect(formatCountdown((86400 + 3723) * 1000)).toBe('1d 01:02:03');
+    expect(formatCountdown(12 * 86400 * 1000)).toBe('12d 00:00:00');
+  });
+
+  it('clamps negative values to zero', () => {
+    expect(formatCountdown(-5000)).toBe('00:00:00');
+  });
+});
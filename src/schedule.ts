@@ -0,0 +1,131 @@
+import { useEffect, useRef } from 'react';
+import type { LightPattern } from './lightPatterns';
+
+// --- Countdown & Schedule ---
+// 倒计时和定时动作都按墙上时间 (本地时区) 计算；时钟可以注入，预览或测试时不用等到真正的那一刻
+export interface CountdownTarget {
+  label: string;
+  /** 本地时间：'2026-12-25T00:00' 只发生一次，'12-25T00:00' 每年一次 */
+  at: string;
+  /** 归零后显示的祝福语 */
+  message: string;
+}
+
+export type ScheduledAction =
+  | { type: 'assemble' }
+  | { type: 'disperse' }
+  | { type: 'lightPattern', pattern: LightPattern }
+  // 归零时的庆祝：特殊灯效 + 烟花般的闪光 + 树炸开 (见 CONFIG.schedule.celebration)
+  | { type: 'celebrate' }
+  // 把照片拉到镜头前展示一会儿；不指定 photo (文件名) 时选第一张 featured 照片
+  | { type: 'featuredPhoto', photo?: string };
+
+export type ScheduleEntry =
+  // 每分钟 / 每小时 / 每天的整点
+  | { every: 'minute' | 'hour' | 'day', action: ScheduledAction }
+  // 指定的时刻，格式同 CountdownTarget.at
+  | { at: string, action: ScheduledAction }
+  // 相对每个倒计时目标的秒数，负数为归零之前
+  | { countdown: number, action: ScheduledAction };
+
+export interface ScheduleOptions {
+  targets: readonly CountdownTarget[];
+  events: readonly ScheduleEntry[];
+}
+
+export type Clock = () => number;
+
+const YEARLY = /^(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?$/;
+
+// at 在 now 前后可能的发生时间：每年一次的取去年、今年、明年，只发生一次的就是它本身 (格式错误时没有)
+const occurrences = (at: string, now: number) => {
+  const yearly = YEARLY.exec(at);
+  if (!yearly) {
+    const time = Date.parse(at);
+    return Number.isNaN(time) ? [] : [time];
+  }
+  const [month, day, hours, minutes, seconds = '0'] = yearly.slice(1);
+  const year = new Date(now).getFullYear();
+  return [year - 1, year, year + 1].map(y => new Date(y, Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds)).getTime());
+};
+
+// now 所在的分钟 / 小时 / 天的开始
+const boundary = (every: 'minute' | 'hour' | 'day', now: number) => {
+  const date = new Date(now);
+  if (every === 'minute') date.setSeconds(0, 0);
+  else if (every === 'hour') date.setMinutes(0, 0, 0);
+  else date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+// 每次 tick() 返回上一次 tick 之后 (不含) 到现在 (含) 到期的动作，按时间先后排列；创建之前已经过去的不会补发
+// 页面在后台被节流、很久没有 tick 时，同一条日程最多补发一次
+export const createScheduler = ({ targets, events }: ScheduleOptions, now: Clock = Date.now) => {
+  let last = now();
+  return {
+    tick: (): ScheduledAction[] => {
+      const current = now();
+      const due: { time: number, action: ScheduledAction }[] = [];
+      const check = (times: number[], action: ScheduledAction) => {
+        const time = times.find(t => t > last && t <= current);
+        if (time !== undefined) due.push({ time, action });
+      };
+      for (const entry of events) {
+        if ('every' in entry) check([boundary(entry.every, current)], entry.action);
+        else if ('at' in entry) check(occurrences(entry.at, current), entry.action);
+        else for (const target of targets) check(occurrences(target.at, current).map(t => t + entry.countdown * 1000), entry.action);
+      }
+      last = current;
+      // sort 是稳定的：同一时刻的动作按配置中的顺序执行
+      return due.sort((a, b) => a.time - b.time).map(({ action }) => action);
+    }
+  };
+};
+
+export interface Countdown {
+  label: string;
+  message: string;
+  /** 距离归零的毫秒数，<= 0 表示已经归零 (还在祝福语的显示时间内) */
+  remaining: number;
+}
+
+/** 最近的一个倒计时目标；归零后 hold 秒内仍然返回它，用于显示祝福语 */
+export const nextCountdown = (targets: readonly CountdownTarget[], now: number, hold: number): Countdown | null => {
+  let next: { target: CountdownTarget, time: number } | null = null;
+  for (const target of targets) {
+    for (const time of occurrences(target.at, now)) {
+      if (time + hold * 1000 > now && (!next || time < next.time)) next = { target, time };
+    }
+  }
+  return next && { label: next.target.label, message: next.target.message, remaining: next.time - now };
+};
+
+/** 12d 03:04:05；不足一天时省略天数 */
+export const formatCountdown = (ms: number) => {
+  const total = Math.max(0, Math.ceil(ms / 1000));
+  const days = Math.floor(total / 86400);
+  const clock = [Math.floor(total / 3600) % 24, Math.floor(total / 60) % 60, total % 60].map(n => String(n).padStart(2, '0')).join(':');
+  return days > 0 ? `${days}d ${clock}` : clock;
+};
+
+/** URL 参数 ?clock=2026-12-24T23:59:50 让时钟从指定的时刻开始走 (预览倒计时和日程)，否则为系统时间 */
+export const resolveClock = (): Clock => {
+  const param = new URLSearchParams(window.location.search).get('clock');
+  const start = param ? Date.parse(param) : NaN;
+  if (Number.isNaN(start)) return Date.now;
+  const offset = start - Date.now();
+  return () => Date.now() + offset;
+};
+
+const TICK = 1000;
+
+// 每秒检查一次日程；onAction 通过 ref 读取最新的状态，不会重新创建调度器
+export const useSchedule = (options: ScheduleOptions, now: Clock, onAction: (action: ScheduledAction) => void) => {
+  const handlerRef = useRef(onAction);
+  handlerRef.current = onAction;
+  useEffect(() => {
+    const scheduler = createScheduler(options, now);
+    const id = setInterval(() => scheduler.tick().forEach(action => handlerRef.current(action)), TICK);
+    return () => clearInterval(id);
+  }, [options, now]);
+};
@@ -0,0 +1,207 @@
+import { useEffect, useState } from 'react';
+import * as THREE from 'three';
+import { CONFIG } from './config';
+import type { Rng } from './random';
+
+// --- Tree Shapes ---
+// 每种形状都提供两种采样：树身内部的点 (Foliage) 和表面上的点 (Ornaments / Elements / Lights)
+// 所有形状都占据 y ∈ [-height/2, height/2] 的范围，树顶星星的位置不受影响
+export interface TreeShape {
+  sampleVolume: (rng: Rng) => [number, number, number];
+  /** radiusScale < 1 往里收，offset > 0 往外挂 */
+  sampleSurface: (rng: Rng, radiusScale: number, offset: number) => THREE.Vector3;
+  /** 表面上高度为 n (0..1)、方位角为 theta 的点，用来把彩灯串成绕树的灯串；平面形状没有 */
+  stringPoint?: (n: number, theta: number, offset: number) => THREE.Vector3;
+}
+
+export type ShapeSpec =
+  | { type: 'cone' }
+  | { type: 'tiered', tiers: number }
+  | { type: 'spiral', turns: number }
+  | { type: 'heart' }
+  | { type: 'text', text: string }
+  | { type: 'image', src: string };
+
+export type ShapeType = ShapeSpec['type'];
+
+// 平面形状 (爱心 / 文字 / 剪影) 的厚度
+const FLAT_DEPTH = 3;
+
+// --- 旋转体：由高度 -> 半径的轮廓函数决定 ---
+const profileShape = (profile: (n: number) => number): TreeShape => ({
+  sampleVolume: rng => {
+    const h = CONFIG.tree.height;
+    const y = (rng() * h) - (h / 2); const normalizedY = (y + (h/2)) / h;
+    const currentRadius = CONFIG.tree.radius * profile(normalizedY); const theta = rng() * Math.PI * 2;
+    const r = rng() * currentRadius;
+    return [r * Math.cos(theta), y, r * Math.sin(theta)];
+  },
+  sampleSurface: (rng, radiusScale, offset) => {
+    const h = CONFIG.tree.height; const y = (rng() * h) - (h / 2);
+    const currentRadius = CONFIG.tree.radius * profile((y + (h/2)) / h) * radiusScale + offset;
+    const theta = rng() * Math.PI * 2;
+    return new THREE.Vector3(currentRadius * Math.cos(theta), y, currentRadius * Math.sin(theta));
+  },
+  stringPoint: (n, theta, offset) => {
+    const h = CONFIG.tree.height; const r = CONFIG.tree.radius * profile(n) + offset;
+    return new THREE.Vector3(r * Math.cos(theta), n * h - h / 2, r * Math.sin(theta));
+  }
+});
+
+const coneShape = () => profileShape(n => 1 - n);
+
+// 分层的冷杉：每一层都是一个上窄下宽的截锥，越往上整体越小
+const tieredShape = (tiers: number) => profileShape(n => {
+  const k = Math.min(tiers - 1, Math.floor(n * tiers)); const t = n * tiers - k;
+  return (1 - k / tiers) * (1 - 0.65 * t);
+});
+
+// 两条螺旋丝带从底部盘旋到树顶
+const spiralShape = (turns: number): TreeShape => {
+  const point = (rng: Rng, radiusScale: number, offset: number, jitter: number) => {
+    const h = CONFIG.tree.height; const n = rng();
+    const angle = n * turns * Math.PI * 2 + (rng() < 0.5 ? 0 : Math.PI);
+    const r = CONFIG.tree.radius * (1 - n) * radiusScale + offset + (rng() - 0.5) * jitter;
+    const y = n * h - h / 2 + (rng() - 0.5) * jitter;
+    return new THREE.Vector3(r * Math.cos(angle), y, r * Math.sin(angle));
+  };
+  return {
+    sampleVolume: rng => point(rng, 1, 0, 1.5).toArray(),
+    sampleSurface: (rng, radiusScale, offset) => point(rng, radiusScale, offset + 0.6, 0.4),
+    stringPoint: (n, theta, offset) => {
+      const h = CONFIG.tree.height; const r = CONFIG.tree.radius * (1 - n) + offset + 0.6;
+      return new THREE.Vector3(r * Math.cos(theta), n * h - h / 2, r * Math.sin(theta));
+    }
+  };
+};
+
+// --- 平面形状：inside 返回内部的点，edge 返回边缘上的点和向外的法线 ---
+type Flat2D = {
+  inside: (rng: Rng) => [number, number];
+  edge: (rng: Rng) => [number, number, number, number];
+};
+
+const flatShape = ({ inside, edge }: Flat2D): TreeShape => ({
+  sampleVolume: rng => {
+    const [x, y] = inside(rng);
+    return [x, y, (rng() - 0.5) * FLAT_DEPTH];
+  },
+  // 一半挂在边缘，一半贴在正反两面
+  sampleSurface: (rng, radiusScale, offset) => {
+    if (rng() < 0.5) {
+      const [x, y, nx, ny] = edge(rng);
+      return new THREE.Vector3(x * radiusScale + nx * offset, y * radiusScale + ny * offset, (rng() - 0.5) * FLAT_DEPTH * 0.5);
+    }
+    const [x, y] = inside(rng);
+    const side = rng() < 0.5 ? -1 : 1;
+    return new THREE.Vector3(x, y, side * (FLAT_DEPTH / 2 * radiusScale + offset));
+  }
+});
+
+const heartShape = () => {
+  // 经典爱心曲线，x ∈ [-16, 16]，y ∈ [-17, 12]
+  const curve = (t: number) => [16 * Math.sin(t) ** 3, 13 * Math.cos(t) - 5 * Math.cos(2 * t) - 2 * Math.cos(3 * t) - Math.cos(4 * t)];
+  const scale = () => CONFIG.tree.height / 29;
+  const centerY = -2.5;
+  return flatShape({
+    inside: rng => {
+      const [bx, by] = curve(rng() * Math.PI * 2); const f = Math.sqrt(rng()) * scale();
+      return [bx * f, (by - centerY) * f];
+    },
+    edge: rng => {
+      const [bx, by] = curve(rng() * Math.PI * 2); const s = scale();
+      const len = Math.hypot(bx, by - centerY) || 1;
+      return [bx * s, (by - centerY) * s, bx / len, (by - centerY) / len];
+    }
+  });
+};
+
+// --- Alpha 遮罩形状 (文字 / 图片剪影) ---
+interface AlphaMask { width: number; height: number; alpha: Uint8ClampedArray }
+
+const maskFromCanvas = (canvas: HTMLCanvasElement): AlphaMask => {
+  const { data } = canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height);
+  const alpha = new Uint8ClampedArray(canvas.width * canvas.height);
+  for (let i = 0; i < alpha.length; i++) alpha[i] = data[i * 4 + 3];
+  return { width: canvas.width, height: canvas.height, alpha };
+};
+
+const maskShape = ({ width, height, alpha }: AlphaMask): TreeShape | null => {
+  const opaque = (x: number, y: number) => x >= 0 && y >= 0 && x < width && y < height && alpha[y * width + x] > 127;
+  const inside: number[] = []; const edges: number[] = [];
+  let minX = width, maxX = 0, minY = height, maxY = 0;
+  for (let y = 0; y < height; y++) for (let x = 0; x < width; x++) {
+    if (!opaque(x, y)) continue;
+    inside.push(y * width + x);
+    if (!opaque(x - 1, y) || !opaque(x + 1, y) || !opaque(x, y - 1) || !opaque(x, y + 1)) edges.push(y * width + x);
+    minX = Math.min(minX, x); maxX = Math.max(maxX, x); minY = Math.min(minY, y); maxY = Math.max(maxY, y);
+  }
+  if (inside.length === 0) return null;
+
+  // 把遮罩的包围盒缩放到树的高度 (宽度不超过树的直径的 1.3 倍)，y 轴朝上
+  const toWorld = (px: number, py: number): [number, number] => {
+    const scale = Math.min(CONFIG.tree.height / (maxY - minY + 1), CONFIG.tree.radius * 2.6 / (maxX - minX + 1));
+    return [(px - (minX + maxX + 1) / 2) * scale, ((minY + maxY + 1) / 2 - py) * scale];
+  };
+  const at = (list: number[], rng: Rng) => {
+    const index = list[Math.floor(rng() * list.length)];
+    return [index % width, Math.floor(index / width)];
+  };
+  return flatShape({
+    inside: rng => { const [x, y] = at(inside, rng); return toWorld(x + rng(), y + rng()); },
+    edge: rng => {
+      const [x, y] = at(edges, rng);
+      // 透明度梯度指向外侧
+      const nx = Number(opaque(x - 1, y)) - Number(opaque(x + 1, y)); const ny = Number(opaque(x, y + 1)) - Number(opaque(x, y - 1));
+      const len = Math.hypot(nx, ny) || 1;
+      return [...toWorld(x + 0.5, y + 0.5), nx / len, ny / len];
+    }
+  });
+};
+
+const textMask = (text: string) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = 512; canvas.height = 256;
+  const ctx = canvas.getContext('2d')!;
+  ctx.font = 'bold 200px sans-serif'; ctx.textAlign = 'center'; ctx.textBaseline = 'middle';
+  ctx.fillText(text, 256, 128, 500);
+  return maskFromCanvas(canvas);
+};
+
+const imageMask = async (src: string) => {
+  const image = new Image();
+  image.src = src;
+  await image.decode();
+  const scale = Math.min(1, 256 / Math.max(image.naturalWidth, image.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(image.naturalWidth * scale)); canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+  canvas.getContext('2d')!.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return maskFromCanvas(canvas);
+};
+
+export const CONE_SHAPE = coneShape();
+
+export const createShape = async (spec: ShapeSpec): Promise<TreeShape> => {
+  switch (spec.type) {
+    case 'cone': return coneShape();
+    case 'tiered': return tieredShape(spec.tiers);
+    case 'spiral': return spiralShape(spec.turns);
+    case 'heart': return heartShape();
+    case 'text': return maskShape(textMask(spec.text)) ?? coneShape();
+    case 'image': return maskShape(await imageMask(spec.src)) ?? coneShape();
+  }
+};
+
+// 形状加载完成前保持上一个形状，避免先变回圆锥
+// 形状在采样时读取 CONFIG.tree，树的尺寸改变后重新生成一次，各组件会像切换形状一样过渡到新的目标点
+export const useTreeShape = (spec: ShapeSpec, dimensions: { height: number, radius: number }) => {
+  const [shape, setShape] = useState<TreeShape>(CONE_SHAPE);
+  useEffect(() => {
+    let cancelled = false;
+    createShape(spec)
+      .then(next => { if (!cancelled) setShape(next); })
+      .catch(err => console.warn('[shapes] failed to build shape', spec, err));
+    return () => { cancelled = true; };
+  }, [spec, dimensions]);
+  return shape;
+};
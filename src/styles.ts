@@ -0,0 +1,4 @@
+// --- Shared UI Styles ---
+// 侧边面板 (照片 / 树 / 截图) 共用的按钮样式
+export const buttonStyle = { padding: '6px 10px', backgroundColor: 'rgba(0,0,0,0.5)', border: '1px solid rgba(255, 215, 0, 0.5)', color: '#FFD700', fontFamily: 'sans-serif', fontSize: '11px', cursor: 'pointer', borderRadius: 0 };
+export const iconStyle = { ...buttonStyle, padding: '2px 6px', fontSize: '12px', border: 'none', backgroundColor: 'transparent' };
@@ -0,0 +1,169 @@
+import { useCallback, useEffect, useState } from 'react';
+import * as THREE from 'three';
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+import { SVGLoader } from 'three/examples/jsm/loaders/SVGLoader.js';
+import { CONFIG } from './config';
+
+// --- Tree Toppers ---
+// 所有树顶装饰都居中、最大边长约 TOPPER_SIZE，可以直接替换原来的五角星
+export type TopperType = 'star' | 'angel' | 'bow' | 'snowflake' | 'svg';
+
+export const TOPPER_TYPES: readonly TopperType[] = ['star', 'angel', 'bow', 'snowflake', 'svg'];
+
+const TOPPER_SIZE = 2.8;
+const EXTRUDE = { depth: 0.4, bevelEnabled: true, bevelThickness: 0.1, bevelSize: 0.1, bevelSegments: 3 };
+
+const extrude = (shapes: THREE.Shape | THREE.Shape[], options: THREE.ExtrudeGeometryOptions = EXTRUDE) => new THREE.ExtrudeGeometry(shapes, options);
+
+// 居中并缩放到统一尺寸
+const normalize = (geometry: THREE.BufferGeometry) => {
+  geometry.computeBoundingBox();
+  const box = geometry.boundingBox!; const size = box.getSize(new THREE.Vector3());
+  geometry.translate(...box.getCenter(new THREE.Vector3()).negate().toArray());
+  const scale = TOPPER_SIZE / Math.max(size.x, size.y);
+  geometry.scale(scale, scale, scale);
+  geometry.computeBoundingBox();
+  return geometry;
+};
+
+const starGeometry = () => {
+  const shape = new THREE.Shape();
+  const outerRadius = 1.3; const innerRadius = 0.7; const points = 5;
+  for (let i = 0; i < points * 2; i++) {
+    const radius = i % 2 === 0 ? outerRadius : innerRadius;
+    const angle = (i / (points * 2)) * Math.PI * 2 - Math.PI / 2;
+    if (i === 0) shape.moveTo(radius * Math.cos(angle), radius * Math.sin(angle)); else shape.lineTo(radius * Math.cos(angle), radius * Math.sin(angle));
+  }
+  shape.closePath();
+  return extrude(shape);
+};
+
+// 六条主枝，每条带两对小分叉
+const snowflakeGeometry = () => {
+  const bar = (length: number, width: number) => new THREE.Shape().moveTo(-width / 2, 0).lineTo(width / 2, 0).lineTo(width / 2, length).lineTo(0, length + width).lineTo(-width / 2, length).closePath();
+  const parts: THREE.BufferGeometry[] = [];
+  const options = { ...EXTRUDE, depth: 0.2, bevelSize: 0.04, bevelThickness: 0.04 };
+  for (let arm = 0; arm < 6; arm++) {
+    const rotation = (arm / 6) * Math.PI * 2;
+    parts.push(extrude(bar(1.3, 0.16), options).rotateZ(rotation));
+    for (const [at, length] of [[0.55, 0.45], [0.95, 0.3]]) for (const side of [-1, 1]) {
+      parts.push(extrude(bar(length, 0.1), options).rotateZ(side * Math.PI / 3).translate(0, at, 0).rotateZ(rotation));
+    }
+  }
+  return mergeGeometries(parts);
+};
+
+// 两个蝴蝶结耳朵 + 中间的结 + 两条飘带
+const bowGeometry = () => {
+  const loop = (side: number) => new THREE.Shape()
+    .moveTo(0, 0)
+    .bezierCurveTo(side * 0.6, 0.9, side * 1.5, 0.7, side * 1.4, 0)
+    .bezierCurveTo(side * 1.5, -0.7, side * 0.6, -0.9, 0, 0);
+  const tail = (side: number) => new THREE.Shape().moveTo(side * 0.1, -0.1).lineTo(side * 0.7, -1.3).lineTo(side * 0.45, -1.2).lineTo(side * 0.35, -1.4).lineTo(-side * 0.1, -0.2).closePath();
+  const knot = new THREE.Shape().absellipse(0, 0, 0.3, 0.35, 0, Math.PI * 2, false, 0);
+  return mergeGeometries([extrude([loop(1), loop(-1), tail(1), tail(-1)]), extrude(knot, { ...EXTRUDE, depth: 0.6 }).translate(0, 0, -0.1)]);
+};
+
+// 头 + 光环 + 翅膀 + 长袍
+const angelGeometry = () => {
+  const robe = new THREE.Shape().moveTo(-0.25, 0.35).lineTo(0.25, 0.35).lineTo(0.8, -1.5).quadraticCurveTo(0, -1.65, -0.8, -1.5).closePath();
+  const head = new THREE.Shape().absarc(0, 0.72, 0.3, 0, Math.PI * 2, false);
+  const wing = (side: number) => new THREE.Shape()
+    .moveTo(side * 0.15, 0.25)
+    .bezierCurveTo(side * 0.9, 0.9, side * 1.5, 0.6, side * 1.45, 0.1)
+    .bezierCurveTo(side * 1.2, -0.3, side * 0.7, -0.6, side * 0.2, -0.3)
+    .closePath();
+  const halo = new THREE.TorusGeometry(0.32, 0.06, 8, 32).rotateX(Math.PI / 2.6).translate(0, 1.15, 0.2).toNonIndexed();
+  halo.deleteAttribute('uv'); // 与 ExtrudeGeometry 的属性保持一致才能合并
+  const body = extrude([robe, head]);
+  const wings = extrude([wing(1), wing(-1)], { ...EXTRUDE, depth: 0.15 }).translate(0, 0, -0.15);
+  body.deleteAttribute('uv'); wings.deleteAttribute('uv');
+  return mergeGeometries([body, wings, halo]);
+};
+
+// 镜像之后三角形的环绕方向会反过来，交换每个三角形的后两个顶点
+const flipWinding = (geometry: THREE.BufferGeometry) => {
+  for (const attribute of Object.values(geometry.attributes) as THREE.BufferAttribute[]) {
+    const { array, itemSize } = attribute;
+    for (let i = 0; i < attribute.count; i += 3) for (let k = 0; k < itemSize; k++) {
+      const a = (i + 1) * itemSize + k; const b = (i + 2) * itemSize + k;
+      [array[a], array[b]] = [array[b], array[a]];
+    }
+  }
+  return geometry;
+};
+
+// 任意 SVG：填充区域拉伸成立体形状 (SVG 的 y 轴朝下，需要翻转)
+export const svgGeometry = (svgText: string) => {
+  const { paths } = new SVGLoader().parse(svgText);
+  const shapes = paths.flatMap(path => SVGLoader.createShapes(path));
+  if (shapes.length === 0) throw new Error('SVG contains no filled shapes');
+  // 厚度按图形尺寸计算，SVG 的单位可大可小
+  const box = new THREE.Box2().setFromPoints(shapes.flatMap(shape => shape.getPoints()));
+  const size = Math.max(box.max.x - box.min.x, box.max.y - box.min.y);
+  const geometry = extrude(shapes, { ...EXTRUDE, depth: size * 0.12, bevelThickness: size * 0.03, bevelSize: size * 0.02 });
+  return flipWinding(geometry.scale(1, -1, 1));
+};
+
+export const createTopperGeometry = (type: TopperType, svgText: string | null) => {
+  switch (type) {
+    case 'star': return normalize(starGeometry());
+    case 'angel': return normalize(angelGeometry());
+    case 'bow': return normalize(bowGeometry());
+    case 'snowflake': return normalize(snowflakeGeometry());
+    case 'svg': return normalize(svgText ? svgGeometry(svgText) : starGeometry());
+  }
+};
+
+// 每种装饰的材质
+export const topperMaterial = (type: TopperType, colors: { gold: string, red: string, silver: string }): THREE.MeshStandardMaterialParameters => ({
+  star: { color: colors.gold, emissive: colors.gold, emissiveIntensity: 1.5, roughness: 0.1, metalness: 1.0 },
+  angel: { color: '#FFF8E7', emissive: '#FFE9A8', emissiveIntensity: 0.6, roughness: 0.35, metalness: 0.2 },
+  bow: { color: colors.red, emissive: colors.red, emissiveIntensity: 0.5, roughness: 0.35, metalness: 0.3 },
+  snowflake: { color: colors.silver, emissive: '#BFE6FF', emissiveIntensity: 1.2, roughness: 0.1, metalness: 0.8 },
+  svg: { color: colors.gold, emissive: colors.gold, emissiveIntensity: 1.5, roughness: 0.1, metalness: 1.0 }
+} satisfies Record<TopperType, THREE.MeshStandardMaterialParameters>)[type];
+
+// --- 树顶设置 (保存在 localStorage，上传的 SVG 也一起保存) ---
+const TOPPER_KEY = 'christmas-tree:topper';
+
+interface StoredTopper { type: TopperType; svg: string | null }
+
+const readTopper = (): StoredTopper => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(TOPPER_KEY) ?? 'null');
+    if (stored && TOPPER_TYPES.includes(stored.type)) return { type: stored.type, svg: typeof stored.svg === 'string' ? stored.svg : null };
+  } catch { /* 损坏的设置直接忽略 */ }
+  return { type: CONFIG.topper.type, svg: null };
+};
+
+export const useTopper = () => {
+  const [topper, setTopper] = useState(readTopper);
+  const [svg, setSvg] = useState<string | null>(topper.svg);
+
+  // 没有上传过 SVG 时使用 CONFIG.topper.svg 指定的文件
+  useEffect(() => {
+    if (topper.svg || !CONFIG.topper.svg) { setSvg(topper.svg); return; }
+    let cancelled = false;
+    fetch(CONFIG.topper.svg).then(r => r.ok ? r.text() : Promise.reject(new Error(`${r.status}`)))
+      .then(text => { if (!cancelled) setSvg(text); })
+      .catch(err => console.warn('[topper] failed to load svg', err));
+    return () => { cancelled = true; };
+  }, [topper.svg]);
+
+  const save = useCallback((next: StoredTopper) => {
+    localStorage.setItem(TOPPER_KEY, JSON.stringify(next));
+    setTopper(next);
+  }, []);
+  const setType = useCallback((type: TopperType) => save({ ...topper, type }), [topper, save]);
+  // 上传后先解析一次，无效的 SVG 直接报错而不是保存
+  const uploadSvg = useCallback(async (file: File) => {
+    const text = await file.text();
+    svgGeometry(text).dispose();
+    save({ type: 'svg', svg: text });
+  }, [save]);
+
+  return { type: topper.type, svg, setType, uploadSvg };
+};
+
+export type TopperSettings = ReturnType<typeof useTopper>;
@@ -0,0 +1,97 @@
+import { useCallback, useEffect, useState } from 'react';
+import type * as THREE from 'three';
+import type { PhotoEntry } from './photos';
+
+// --- Memory Tour (幻灯片模式：镜头依次停在每张照片前) ---
+export type TourOrder = 'sequential' | 'shuffle' | 'chronological' | 'featured';
+
+/** PhotoOrnaments 对外暴露的每个拍立得的位置 (树组的局部坐标) */
+export interface OrnamentStop {
+  targetPos: THREE.Vector3;
+  currentPos: THREE.Vector3;
+  photo: PhotoEntry;
+}
+
+export interface TourOptions {
+  order: TourOrder;
+  /** 每张照片只停一次 (同一张照片可能挂在多个拍立得上) */
+  onePerPhoto: boolean;
+  /** 最多停留的照片数，0 表示全部 */
+  maxStops: number;
+}
+
+const shuffle = (list: number[], random: () => number) => {
+  const result = [...list];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+/** random 用于 shuffle；多个屏幕同步时传入同一个种子的随机数，顺序就一样 */
+export const buildTourQueue = (layout: OrnamentStop[], { order, onePerPhoto, maxStops }: TourOptions, random: () => number = Math.random) => {
+  let queue = layout.map((_, i) => i);
+  if (onePerPhoto) {
+    const seen = new Set<PhotoEntry>();
+    queue = queue.filter(i => {
+      if (seen.has(layout[i].photo)) return false;
+      seen.add(layout[i].photo);
+      return true;
+    });
+  }
+  if (order === 'shuffle') queue = shuffle(queue, random);
+  // 没有日期的照片排在最后；sort 是稳定的，同一天的照片保持原顺序
+  if (order === 'chronological') queue.sort((a, b) => (layout[a].photo.date ?? '9999').localeCompare(layout[b].photo.date ?? '9999'));
+  if (order === 'featured') queue.sort((a, b) => Number(!!layout[b].photo.featured) - Number(!!layout[a].photo.featured));
+  return maxStops > 0 ? queue.slice(0, maxStops) : queue;
+};
+
+export interface TourTiming {
+  /** 镜头在两张照片之间移动的时间 (秒) */
+  travel: number;
+  /** 在每张照片前停留的时间 (秒) */
+  dwell: number;
+  /** 每隔多少秒散开再聚合一次，0 表示关闭 */
+  crossfadeInterval: number;
+  /** 散开状态持续的时间 (秒) */
+  crossfadeHold: number;
+}
+
+export const useTour = ({ travel, dwell, crossfadeInterval, crossfadeHold }: TourTiming, onSceneState: (state: 'CHAOS' | 'FORMED') => void) => {
+  const [queue, setQueue] = useState<number[]>([]);
+  const [position, setPosition] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const active = queue.length > 0;
+
+  const start = useCallback((next: number[]) => {
+    setQueue(next); setPosition(0); setPlaying(true);
+    onSceneState('FORMED');
+  }, [onSceneState]);
+  const stop = useCallback(() => { setQueue([]); setPlaying(false); }, []);
+  const next = useCallback(() => setPosition(p => (p + 1) % Math.max(queue.length, 1)), [queue.length]);
+  const prev = useCallback(() => setPosition(p => (p - 1 + queue.length) % Math.max(queue.length, 1)), [queue.length]);
+  const togglePlay = useCallback(() => setPlaying(p => !p), []);
+
+  // 停留时间到了自动前往下一张
+  useEffect(() => {
+    if (!active || !playing) return;
+    const id = setTimeout(next, (travel + dwell) * 1000);
+    return () => clearTimeout(id);
+  }, [active, playing, position, next, travel, dwell]);
+
+  // 定时散开 -> 聚合；暂停 / 停止时只有正处于散开状态才聚合回去，不覆盖用户自己切换的模式
+  useEffect(() => {
+    if (!active || !playing || crossfadeInterval <= 0) return;
+    let holdId: ReturnType<typeof setTimeout>;
+    let scattered = false;
+    const id = setInterval(() => {
+      scattered = true;
+      onSceneState('CHAOS');
+      holdId = setTimeout(() => { scattered = false; onSceneState('FORMED'); }, crossfadeHold * 1000);
+    }, crossfadeInterval * 1000);
+    return () => { clearInterval(id); clearTimeout(holdId); if (scattered) onSceneState('FORMED'); };
+  }, [active, playing, crossfadeInterval, crossfadeHold, onSceneState]);
+
+  return { active, playing, position, length: queue.length, current: active ? queue[position] : null, start, stop, next, prev, togglePlay };
+};
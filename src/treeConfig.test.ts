@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { CONFIG } from './config';
+import { decodeTreeConfig, defaultTreeConfig, encodeTreeConfig, parseTreeConfig, TREE_CONFIG_VERSION, type TreeConfig } from './treeConfig';
+
+const SEED = 'fallback';
+
+const custom = (): TreeConfig => ({
+  ...defaultTreeConfig(1234),
+  colors: { ...defaultTreeConfig(1234).colors, gold: '#ABCDEF', lights: ['#FF0000', '#00FF00'] },
+  tree: { height: 30, radius: 12 },
+  effects: { bloomIntensity: 2.5, bloomThreshold: 0.4, vignetteDarkness: 1.2 },
+  counts: { foliage: 5000, ornaments: 40, elements: 60, lights: 120 },
+  shape: 'heart'
+});
+
+// 把链接里的数组重新打包成任意版本，用来构造旧版 / 损坏的链接
+// (内容都是 ASCII，btoa / atob 就够了)
+const packedOf = (hash: string) => JSON.parse(atob(hash.slice(hash.indexOf('.') + 1).replace(/-/g, '+').replace(/_/g, '/'))) as unknown[];
+const linkOf = (version: number, packed: unknown[]) => `#tree=v${version}.${btoa(JSON.stringify(packed)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')}`;
+
+describe('encodeTreeConfig / decodeTreeConfig', () => {
+  it('round-trips a config through a link (without photos)', () => {
+    const config = { ...custom(), photos: ['a', 'b'] };
+    const hash = encodeTreeConfig(config);
+    expect(hash).toMatch(new RegExp(`^#tree=v${TREE_CONFIG_VERSION}\\.[\\w-]+$`));
+    expect(decodeTreeConfig(hash, SEED)).toEqual({ ...config, photos: null });
+  });
+
+  it('keeps the default particle counts as null', () => {
+    const config = defaultTreeConfig('abc');
+    expect(decodeTreeConfig(encodeTreeConfig(config), SEED)).toEqual(config);
+  });
+
+  it('returns null when there is no tree in the hash', () => {
+    expect(decodeTreeConfig('', SEED)).toBeNull();
+    expect(decodeTreeConfig('#other=1', SEED)).toBeNull();
+  });
+
+  it('migrates version 1 links by adding default effects', () => {
+    const config = custom();
+    const v1 = linkOf(1, packedOf(encodeTreeConfig(config)).slice(0, 10));
+    expect(decodeTreeConfig(v1, SEED)).toEqual({ ...config, effects: defaultTreeConfig(SEED).effects, photos: null });
+  });
+
+  it('rejects links from a newer version', () => {
+    const future = linkOf(TREE_CONFIG_VERSION + 1, packedOf(encodeTreeConfig(custom())));
+    expect(() => decodeTreeConfig(future, SEED)).toThrow(/only understands versions 1 to/);
+  });
+
+  it('rejects damaged links', () => {
+    expect(() => decodeTreeConfig('#tree=v2.!!!', SEED)).toThrow('The tree link is damaged');
+    expect(() => decodeTreeConfig('#tree=v2.bm90IGpzb24', SEED)).toThrow('The tree link is damaged');
+    expect(() => decodeTreeConfig(linkOf(2, [1, 2, 3]), SEED)).toThrow('The tree link is damaged');
+  });
+
+  it('rejects a link with an unknown shape', () => {
+    const packed = packedOf(encodeTreeConfig(custom()));
+    packed[8] = 'toString';
+    expect(() => decodeTreeConfig(linkOf(2, packed), SEED)).toThrow(/shape: expected one of/);
+  });
+});
+
+describe('parseTreeConfig', () => {
+  it('accepts the current version as exported', () => {
+    const config = custom();
+    expect(parseTreeConfig(JSON.parse(JSON.stringify(config)), SEED)).toEqual(config);
+  });
+
+  it('migrates a version 0 CONFIG snippet, filling in defaults', () => {
+    const config = parseTreeConfig({ colors: { gold: '#123456' }, counts: { foliage: 100, ornaments: 1, elements: 2, lights: 3 } }, SEED);
+    expect(config.version).toBe(TREE_CONFIG_VERSION);
+    expect(config.colors.gold).toBe('#123456');
+    expect(config.colors.emerald).toBe(defaultTreeConfig(SEED).colors.emerald);
+    expect(config.counts).toEqual({ foliage: 100, ornaments: 1, elements: 2, lights: 3 });
+    expect(config.shape).toBe(CONFIG.shape);
+    expect(config.seed).toBe(SEED);
+    expect(config.effects).toEqual(defaultTreeConfig(SEED).effects);
+  });
+
+  it('migrates version 1 by adding default effects', () => {
+    const v1: Record<string, unknown> = { ...custom(), version: 1 };
+    delete v1.effects;
+    expect(parseTreeConfig(v1, SEED)).toEqual({ ...custom(), effects: defaultTreeConfig(SEED).effects });
+  });
+
+  it('rejects future and malformed versions', () => {
+    expect(() => parseTreeConfig({ ...custom(), version: TREE_CONFIG_VERSION + 1 }, SEED)).toThrow(/only understands up to version/);
+    expect(() => parseTreeConfig({ ...custom(), version: 'two' }, SEED)).toThrow(/Unknown tree config version/);
+    expect(() => parseTreeConfig({ ...custom(), version: 1.5 }, SEED)).toThrow(/Unknown tree config version/);
+  });
+
+  it('rejects things that are not tree configs', () => {
+    expect(() => parseTreeConfig([], SEED)).toThrow(/expected a JSON object/);
+    expect(() => parseTreeConfig({ hello: 'world' }, SEED)).toThrow(/no recognizable settings/);
+  });
+
+  it('lists every bad field with its path', () => {
+    const bad = { ...custom(), colors: { ...custom().colors, gold: 'gold', lights: [] }, tree: { height: 1000, radius: 12 }, counts: { foliage: 1.5, ornaments: 1, elements: 1, lights: 1 } };
+    let message = '';
+    try { parseTreeConfig(bad, SEED); } catch (err) { message = (err as Error).message; }
+    expect(message).toContain('colors.gold: expected a hex color');
+    expect(message).toContain('colors.lights: expected a non-empty list of hex colors');
+    expect(message).toContain('tree.height: expected a number between');
+    expect(message).toContain('counts.foliage: expected an integer between');
+  });
+
+  it('rejects inherited object keys as shapes', () => {
+    for (const shape of ['toString', 'constructor', '__proto__', 'pyramid']) {
+      expect(() => parseTreeConfig({ ...custom(), shape }, SEED)).toThrow(/shape: expected one of/);
+    }
+  });
+});
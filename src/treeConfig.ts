@@ -0,0 +1,261 @@
+import { useCallback, useState } from 'react';
+import { CONFIG } from './config';
+import type { ShapeType } from './shapes';
+import type { QualityPreset } from './quality';
+
+// --- Tree Config: 可以导出 / 导入 / 通过链接分享的 "一棵树" ---
+// 颜色和尺寸在各模块中直接读取 CONFIG，所以应用配置时写回 CONFIG，再由 App 重建场景
+export const TREE_CONFIG_VERSION = 2;
+
+type Counts = QualityPreset['counts'];
+export type TreeColors = typeof CONFIG.colors;
+
+export interface TreeEffects {
+  bloomIntensity: number;
+  bloomThreshold: number;
+  vignetteDarkness: number;
+}
+
+export interface TreeConfig {
+  version: typeof TREE_CONFIG_VERSION;
+  colors: TreeColors;
+  tree: { height: number, radius: number };
+  /** 后期效果 (第 2 版加入) */
+  effects: TreeEffects;
+  /** 粒子数量；null 表示跟随画质档位 */
+  counts: Counts | null;
+  shape: ShapeType;
+  seed: number | string;
+  /** 内置照片的文件名 (不含扩展名，按显示顺序)；null 表示全部。只在 JSON 中保存，不放进链接 */
+  photos: string[] | null;
+}
+
+const COLOR_KEYS = ['emerald', 'gold', 'silver', 'red', 'green', 'white', 'warmLight'] as const;
+const PALETTE_KEYS = ['lights', 'borders', 'giftColors', 'candyColors'] as const;
+const COUNT_KEYS = ['foliage', 'ornaments', 'elements', 'lights'] as const;
+const EFFECT_KEYS = ['bloomIntensity', 'bloomThreshold', 'vignetteDarkness'] as const;
+export const LIMITS = {
+  height: [8, 40], radius: [3, 20], counts: [0, 100000],
+  bloomIntensity: [0, 5], bloomThreshold: [0, 1], vignetteDarkness: [0, 2]
+} as const;
+
+// 应用配置会改写 CONFIG，先记下代码中写的默认值
+const DEFAULTS = { colors: structuredClone(CONFIG.colors), tree: { ...CONFIG.tree } };
+const DEFAULT_EFFECTS: TreeEffects = { bloomIntensity: CONFIG.effects.bloom.intensity, bloomThreshold: CONFIG.effects.bloom.threshold, vignetteDarkness: CONFIG.effects.vignette.darkness };
+
+export const defaultTreeConfig = (seed: number | string): TreeConfig => ({
+  version: TREE_CONFIG_VERSION,
+  colors: structuredClone(DEFAULTS.colors),
+  tree: { ...DEFAULTS.tree },
+  effects: { ...DEFAULT_EFFECTS },
+  counts: null,
+  shape: CONFIG.shape,
+  seed,
+  photos: null
+});
+
+// --- 校验 ---
+// 所有问题一次性收集起来，错误信息带上字段路径，例如 "colors.gold: expected a hex color like #FFD700"
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isHex = (value: unknown): value is string => typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+
+const validate = (raw: Record<string, unknown>): TreeConfig => {
+  const problems: string[] = [];
+  const check = (ok: boolean, path: string, expected: string) => { if (!ok) problems.push(`${path}: expected ${expected}`); };
+  const inRange = (value: unknown, [min, max]: readonly [number, number]) => typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+
+  const colors = isObject(raw.colors) ? raw.colors : {};
+  check(isObject(raw.colors), 'colors', 'an object');
+  for (const key of COLOR_KEYS) check(isHex(colors[key]), `colors.${key}`, 'a hex color like #FFD700');
+  for (const key of PALETTE_KEYS) {
+    const list = colors[key];
+    check(Array.isArray(list) && list.length > 0 && list.every(isHex), `colors.${key}`, 'a non-empty list of hex colors');
+  }
+  const tree = isObject(raw.tree) ? raw.tree : {};
+  check(inRange(tree.height, LIMITS.height), 'tree.height', `a number between ${LIMITS.height.join(' and ')}`);
+  check(inRange(tree.radius, LIMITS.radius), 'tree.radius', `a number between ${LIMITS.radius.join(' and ')}`);
+  const effects = isObject(raw.effects) ? raw.effects : {};
+  for (const key of EFFECT_KEYS) check(inRange(effects[key], LIMITS[key]), `effects.${key}`, `a number between ${LIMITS[key].join(' and ')}`);
+  if (raw.counts !== null) {
+    const counts = isObject(raw.counts) ? raw.counts : {};
+    for (const key of COUNT_KEYS) check(inRange(counts[key], LIMITS.counts) && Number.isInteger(counts[key]), `counts.${key}`, `an integer between ${LIMITS.counts.join(' and ')}`);
+  }
+  check(typeof raw.shape === 'string' && Object.hasOwn(CONFIG.shapes, raw.shape), 'shape', `one of ${Object.keys(CONFIG.shapes).join(', ')}`);
+  check(typeof raw.seed === 'string' || (typeof raw.seed === 'number' && Number.isFinite(raw.seed)), 'seed', 'a number or a string');
+  check(raw.photos === null || (Array.isArray(raw.photos) && raw.photos.every(p => typeof p === 'string')), 'photos', 'null or a list of file names');
+
+  if (problems.length > 0) throw new Error(`Invalid tree config:\n${problems.join('\n')}`);
+  return {
+    version: TREE_CONFIG_VERSION,
+    colors: structuredClone(colors) as TreeColors,
+    tree: { height: tree.height as number, radius: tree.radius as number },
+    effects: Object.fromEntries(EFFECT_KEYS.map(key => [key, effects[key]])) as unknown as TreeEffects,
+    counts: raw.counts === null ? null : Object.fromEntries(COUNT_KEYS.map(key => [key, (raw.counts as Counts)[key]])) as Counts,
+    shape: raw.shape as ShapeType,
+    seed: raw.seed as number | string,
+    photos: raw.photos === null ? null : [...(raw.photos as string[])]
+  };
+};
+
+// --- 版本迁移 ---
+// MIGRATIONS[n] 把第 n 版升级到第 n + 1 版。第 0 版是没有 version 字段、直接从 App 的 CONFIG 复制出来的片段
+// (旧版 CONFIG 用 counts 保存粒子数量)，缺少的字段用当前默认值补上
+const MIGRATIONS: Record<number, (raw: Record<string, unknown>, seed: number | string) => Record<string, unknown>> = {
+  0: (raw, seed) => {
+    const defaults = defaultTreeConfig(seed);
+    return {
+      ...defaults,
+      colors: { ...defaults.colors, ...(isObject(raw.colors) ? raw.colors : {}) },
+      tree: { ...defaults.tree, ...(isObject(raw.tree) ? raw.tree : {}) },
+      counts: raw.counts ?? null,
+      shape: raw.shape ?? defaults.shape,
+      seed: raw.seed ?? seed,
+      version: 1
+    };
+  },
+  // 第 2 版加入后期效果，旧配置使用默认值
+  1: raw => ({ ...raw, effects: { ...DEFAULT_EFFECTS }, version: 2 })
+};
+
+/** 解析任意来源的配置：旧版本逐级迁移，未知版本或无效内容直接报错 (不会静默忽略) */
+export const parseTreeConfig = (input: unknown, fallbackSeed: number | string): TreeConfig => {
+  if (!isObject(input)) throw new Error('Not a tree config: expected a JSON object');
+  let raw = input;
+  if (!('version' in raw)) {
+    if (!['colors', 'tree', 'counts', 'shape', 'seed'].some(key => key in raw)) throw new Error('Not a tree config: no "version" field and no recognizable settings');
+    raw = { ...raw, version: 0 };
+  }
+  const version = raw.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) throw new Error(`Unknown tree config version: ${JSON.stringify(version)}`);
+  if (version > TREE_CONFIG_VERSION) throw new Error(`This tree config is version ${version}, but this page only understands up to version ${TREE_CONFIG_VERSION}. Please update the app.`);
+  for (let v = version; v < TREE_CONFIG_VERSION; v++) raw = MIGRATIONS[v](raw, fallbackSeed);
+  return validate(raw);
+};
+
+// --- 链接编码 ---
+// #tree=v<版本>.<base64url>，内容是按固定顺序排列的数组，颜色去掉 # 后直接拼接，照片列表不放进链接
+// 第 1 版的数组有 10 项，第 2 版在末尾加了后期效果
+const HASH_PREFIX = '#tree=';
+
+const toBase64Url = (text: string) => btoa(String.fromCharCode(...new TextEncoder().encode(text))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+const fromBase64Url = (data: string) => new TextDecoder().decode(Uint8Array.from(atob(data.replace(/-/g, '+').replace(/_/g, '/')), c => c.charCodeAt(0)));
+const packColors = (list: string[]) => list.map(c => c.slice(1)).join('');
+const unpackColors = (packed: unknown) => typeof packed === 'string' ? (packed.match(/.{6}/g) ?? []).map(c => `#${c}`) : packed;
+
+export const encodeTreeConfig = (config: TreeConfig) => {
+  const packed = [
+    packColors(COLOR_KEYS.map(key => config.colors[key])),
+    ...PALETTE_KEYS.map(key => packColors(config.colors[key])),
+    config.tree.height, config.tree.radius,
+    config.counts ? COUNT_KEYS.map(key => config.counts![key]) : 0,
+    config.shape, config.seed,
+    EFFECT_KEYS.map(key => config.effects[key])
+  ];
+  return `${HASH_PREFIX}v${config.version}.${toBase64Url(JSON.stringify(packed))}`;
+};
+
+/** 没有 #tree= 时返回 null；链接损坏或版本不支持时抛出错误 */
+export const decodeTreeConfig = (hash: string, fallbackSeed: number | string): TreeConfig | null => {
+  if (!hash.startsWith(HASH_PREFIX)) return null;
+  const match = /^v(\d+)\.([\w-]+)$/.exec(hash.slice(HASH_PREFIX.length));
+  if (!match) throw new Error('The tree link is damaged');
+  const version = Number(match[1]);
+  if (version < 1 || version > TREE_CONFIG_VERSION) throw new Error(`This tree link is version ${version}, but this page only understands versions 1 to ${TREE_CONFIG_VERSION}. Please update the app.`);
+  let packed: unknown;
+  try { packed = JSON.parse(fromBase64Url(match[2])); } catch { throw new Error('The tree link is damaged'); }
+  if (!Array.isArray(packed) || packed.length !== (version === 1 ? 10 : 11)) throw new Error('The tree link is damaged');
+  const [basic, ...rest] = packed;
+  const basicColors = unpackColors(basic) as string[];
+  const [lights, borders, giftColors, candyColors, height, radius, counts, shape, seed, effects] = rest;
+  return parseTreeConfig({
+    version,
+    colors: {
+      ...Object.fromEntries(COLOR_KEYS.map((key, i) => [key, Array.isArray(basicColors) ? basicColors[i] : undefined])),
+      lights: unpackColors(lights), borders: unpackColors(borders), giftColors: unpackColors(giftColors), candyColors: unpackColors(candyColors)
+    },
+    tree: { height, radius },
+    counts: Array.isArray(counts) ? Object.fromEntries(COUNT_KEYS.map((key, i) => [key, counts[i]])) : null,
+    shape, seed, photos: null,
+    ...(version >= 2 && { effects: Array.isArray(effects) ? Object.fromEntries(EFFECT_KEYS.map((key, i) => [key, effects[i]])) : effects })
+  }, fallbackSeed);
+};
+
+/** 把颜色和尺寸写回 CONFIG (其余字段由 App 通过 props 传递) */
+export const applyTreeConfig = (config: TreeConfig) => {
+  Object.assign(CONFIG.colors, structuredClone(config.colors));
+  Object.assign(CONFIG.tree, config.tree);
+};
+
+export const treeConfigToJson = (config: TreeConfig) => JSON.stringify(config, null, 2);
+
+// --- 当前树的配置 ---
+// 打开带 #tree= 的链接时使用链接中的配置；修改后各组件按新的 props 重新生成布局，不需要刷新页面
+export const useTreeConfig = (initialSeed: () => number | string) => {
+  const [state, setState] = useState(() => {
+    const seed = initialSeed();
+    let config = defaultTreeConfig(seed); let error: string | null = null;
+    try { config = decodeTreeConfig(window.location.hash, seed) ?? config; } catch (err) { error = (err as Error).message; }
+    applyTreeConfig(config);
+    return { config, error };
+  });
+
+  const update = useCallback((patch: Partial<Omit<TreeConfig, 'version'>>) => setState(current => {
+    const config = { ...current.config, ...patch };
+    applyTreeConfig(config);
+    return { ...current, config };
+  }), []);
+  const replace = useCallback((config: TreeConfig) => {
+    applyTreeConfig(config);
+    setState({ config, error: null });
+  }, []);
+  const importFile = useCallback(async (file: File) => {
+    let json: unknown;
+    try { json = JSON.parse(await file.text()); } catch { throw new Error(`${file.name} is not valid JSON`); }
+    replace(parseTreeConfig(json, state.config.seed));
+  }, [replace, state.config.seed]);
+  const dismissError = useCallback(() => setState(current => ({ ...current, error: null })), []);
+  const shareUrl = `${window.location.origin}${window.location.pathname}${window.location.search}${encodeTreeConfig(state.config)}`;
+
+  return { ...state, update, replace, importFile, dismissError, shareUrl };
+};
+
+export type TreeConfigStore = ReturnType<typeof useTreeConfig>;
+
+// --- 主题预设 ---
+// 只列出与默认值 (classic) 不同的颜色 / 效果
+export const THEMES: Record<string, { colors: Partial<TreeColors>, effects?: Partial<TreeEffects> }> = {
+  classic: { colors: {} },
+  icySilver: {
+    colors: {
+      emerald: '#16324F', gold: '#CFE8FF', silver: '#FFFFFF', red: '#90CAF9', green: '#B0BEC5', warmLight: '#E3F2FD',
+      lights: ['#FFFFFF', '#B3E5FC', '#81D4FA', '#E1F5FE'],
+      borders: ['#FFFFFF', '#ECEFF1', '#E3F2FD', '#CFD8DC'],
+      giftColors: ['#B0BEC5', '#E3F2FD', '#90A4AE', '#FFFFFF']
+    },
+    effects: { bloomThreshold: 0.7 }
+  },
+  roseGold: {
+    colors: {
+      emerald: '#5D2E3A', gold: '#E8B4A0', silver: '#F8E1DA', red: '#C2185B', green: '#8D6E63', warmLight: '#FFCCBC',
+      lights: ['#F8BBD0', '#FFE0B2', '#E8B4A0', '#FFFFFF'],
+      borders: ['#FFF0F5', '#F8E1DA', '#FADADD', '#FFE4E1'],
+      giftColors: ['#E8B4A0', '#C2185B', '#F8BBD0', '#FFF8E1']
+    }
+  },
+  midnightBlue: {
+    colors: {
+      emerald: '#0D1B4C', silver: '#C5CAE9', red: '#3949AB', green: '#1A237E', warmLight: '#FFF59D',
+      lights: ['#FFFFFF', '#FFD700', '#7986CB', '#4FC3F7'],
+      borders: ['#E8EAF6', '#C5CAE9', '#FFF9C4', '#B3E5FC'],
+      giftColors: ['#1A237E', '#FFD700', '#C5CAE9', '#3949AB']
+    },
+    effects: { vignetteDarkness: 1.5 }
+  }
+};
+
+/** 主题只替换颜色和后期效果，尺寸 / 数量 / 形状保持不变 */
+export const themeConfig = (config: TreeConfig, name: string): TreeConfig => ({
+  ...config,
+  colors: { ...structuredClone(DEFAULTS.colors), ...structuredClone(THEMES[name].colors) },
+  effects: { ...DEFAULT_EFFECTS, ...THEMES[name].effects }
+});
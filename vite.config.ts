@@ -1,7 +1,19 @@
+import { fileURLToPath } from 'node:url'
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
+import photoManifest from './plugins/photoManifest'
+import mediapipeAssets from './plugins/mediapipeAssets'
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), photoManifest(), mediapipeAssets()],
+  build: {
+    // remote.html：手机遥控器 (见 npm run relay)
+    rollupOptions: {
+      input: {
+        main: fileURLToPath(new URL('./index.html', import.meta.url)),
+        remote: fileURLToPath(new URL('./remote.html', import.meta.url))
+      }
+    }
+  }
 })